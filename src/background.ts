@@ -1,19 +1,153 @@
-interface StoredFormData {
-  url: string;
-  data: { [fieldName: string]: string | boolean };
-  timestamp: number;
+import type { EncryptedPayload, EvictedEntry, ExportEnvelope, FieldHistory, FieldHistoryValue, FieldLocator, FormCommand, FormFieldValue, FormFingerprint, ImportPreviewEntry, ImportStrategy, Profile, RestorePolicy, RestorePolicyConfig, Settings, SiteAccess, SiteRule, StorageAreaName, StoredFormData, UrlRule } from './types';
+import { getStorageUsage, isStoredFormData, readAllEntries, readEntry, removeEntries, writeEntry } from './storage';
+import { isValidPathTemplate, normalizePageKey } from './url-normalization';
+
+// Separator between a form key and a named snapshot in storage keys
+const SNAPSHOT_KEY_SEPARATOR = '#snapshot:';
+// Form keys are a page key (an http(s) URL) plus `_form_` and a fingerprint hash or, in entries
+// from before fingerprints, a form index. Settings, drafts and the other local items never look like this.
+const FORM_KEY_PATTERN = /^https?:\/\/\S+_form_[0-9a-z]+$/;
+
+// Drafts live in local storage under this prefix, apart from explicitly saved entries
+const DRAFT_KEY_PREFIX = 'draft:';
+
+// Values typed into fields are kept per site in local storage under this prefix and the origin
+const FIELD_HISTORY_KEY_PREFIX = 'history:';
+const FIELD_HISTORY_LIMIT = 10;
+// Longer values are pasted documents rather than something worth suggesting again
+const FIELD_HISTORY_MAX_LENGTH = 500;
+
+// Profiles are kept together in local storage, in the order they were created
+const PROFILES_KEY = 'profiles';
+
+const SETTINGS_KEY = 'settings';
+const SETTINGS_VERSION = 5;
+// Keys the draft mode and restore policy were stored under before settings were one object
+const LEGACY_DRAFT_MODE_KEY = 'draftModeEnabled';
+const LEGACY_RESTORE_POLICY_KEY = 'restorePolicy';
+
+// Defaults match the behaviour from before settings existed
+const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  draftMode: false,
+  restorePolicy: { default: 'auto', sites: {} },
+  suggestDelayMs: 2000,
+  suggestAutoHideMs: 10000,
+  quotaThresholdPercent: 90,
+  evictionPercent: 25,
+  evictionPolicy: 'lru',
+  evictionMaxAgeDays: 90,
+  evictionMaxEntries: 200,
+  storageArea: 'sync',
+  siteRules: [],
+  urlRules: [],
+  // Phone numbers and email addresses are what most forms ask for, so their detectors are opt-in
+  sensitiveFields: {
+    builtInPatterns: true,
+    detectors: { cardNumber: true, iban: true, nationalId: true, phone: false, email: false },
+    rules: []
+  }
+};
+
+const FULL_ACCESS: SiteAccess = { save: true, restore: true, prompt: true };
+
+const EXPORT_FORMAT = 'form-memory';
+const EXPORT_SCHEMA_VERSION = 1;
+
+// Encryption is on while this key exists in local storage
+const ENCRYPTION_KEY = 'encryption';
+// The unlocked key lives in session storage, which is kept in memory and cleared when the
+// browser closes; it survives the service worker being stopped in between
+const SESSION_KEY_NAME = 'encryptionKey';
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'form-memory';
+
+interface EncryptionConfig {
+  // Base64-encoded PBKDF2 salt
+  salt: string;
+  iterations: number;
+  // A known text encrypted with the key, to check a passphrase without touching saved data
+  verifier: EncryptedPayload;
+}
+
+// Allowed range of each numeric setting
+type NumericSetting =
+  | 'suggestDelayMs' | 'suggestAutoHideMs' | 'quotaThresholdPercent'
+  | 'evictionPercent' | 'evictionMaxAgeDays' | 'evictionMaxEntries';
+
+const SETTING_LIMITS: { [key in NumericSetting]: [number, number] } = {
+  suggestDelayMs: [500, 30000],
+  suggestAutoHideMs: [3000, 120000],
+  quotaThresholdPercent: [50, 99],
+  evictionPercent: [5, 90],
+  evictionMaxAgeDays: [1, 3650],
+  evictionMaxEntries: [10, 5000]
+};
+
+const EVICTION_POLICIES = ['lru', 'maxAge', 'maxCount'];
+
+const URL_QUERY_MODES = ['ignore', 'include', 'exclude'];
+
+// Context menu items, one per command; their ids are the command names
+const CONTEXT_MENU_ITEMS: { id: FormCommand; title: string; contexts: chrome.contextMenus.ContextType[] }[] = [
+  { id: 'save-form', title: 'このフォームを保存', contexts: ['page', 'editable'] },
+  { id: 'restore-form', title: 'このフォームを復元', contexts: ['page', 'editable'] },
+  { id: 'fill-field', title: 'この項目に履歴から入力', contexts: ['editable'] },
+  { id: 'never-save-site', title: 'このサイトでは保存しない', contexts: ['page', 'editable'] }
+];
+
+// Parent of the context menu items filling the page from a profile, whose ids are this prefix
+// and the profile's id
+const PROFILE_MENU_ID = 'fill-profile';
+const PROFILE_MENU_ITEM_PREFIX = 'fill-profile:';
+
+// Restores record when an entry was last used at most this often. Every write of a synced entry
+// counts against the sync quota and reaches every device, while eviction only needs the day.
+const LAST_USED_RESOLUTION_MS = 24 * 60 * 60 * 1000;
+
+// Entries removed to free storage are kept in local storage for a while, so they can be put back
+const EVICTED_KEY = 'evicted';
+const EVICTION_RECOVERY_MS = 60 * 60 * 1000;
+
+// Settings as read from storage: written by any earlier version, or not at all
+type StoredSettings = Partial<Settings> & { version?: number };
+
+interface EvictionStash {
+  // Removed entries as they were stored, by storage key
+  entries: { [key: string]: { entry: StoredFormData; area: StorageAreaName; evictedAt: number } };
 }
 
 interface Message {
   action: string;
   key?: string;
   data?: StoredFormData;
+  enabled?: boolean;
+  url?: string;
+  config?: RestorePolicyConfig;
+  settings?: Partial<Settings>;
+  rule?: SiteRule;
+  urlRule?: UrlRule;
+  passphrase?: string;
+  snapshotName?: string;
+  pinned?: boolean;
+  // Parsed contents of an imported backup file
+  content?: unknown;
+  keys?: string[];
+  strategies?: { [key: string]: ImportStrategy };
+  // A value of the field history
+  value?: string;
+  profile?: Profile;
 }
 
 class BackgroundService {
+  // Cache of the unlocked key; the session storage copy is the source of truth
+  private encryptionKey: CryptoKey | null = null;
+
   constructor() {
     this.setupMessageListener();
     this.setupStorageChangeListener();
+    this.setupActionListeners();
+    this.setupCommandListeners();
   }
 
   private setupMessageListener() {
@@ -37,45 +171,199 @@ class BackgroundService {
       case 'getFormData':
         return this.getFormData(message.key!);
       
+      case 'getFormSnapshots':
+        return this.getFormSnapshots(message.key!);
+      
+      case 'getPageFormData':
+        return this.getPageFormData(message.key!);
+      
       case 'getAllFormData':
         return this.getAllFormData();
       
       case 'deleteFormData':
         return this.deleteFormData(message.key!);
       
+      case 'deleteFormSnapshots':
+        return this.deleteFormSnapshots(message.key!);
+      
       case 'clearAllData':
         return this.clearAllData();
       
+      case 'getStorageUsage':
+        return getStorageUsage();
+      
+      case 'markFormUsed':
+        return this.markFormUsed(this.getSnapshotKey(message.key!, message.snapshotName));
+      
+      case 'setPinned':
+        return this.updateEntryMetadata(message.key!, { pinned: message.pinned === true });
+      
+      case 'getEvictedEntries':
+        return this.getEvictedEntries();
+      
+      case 'restoreEvicted':
+        return this.restoreEvicted(message.keys);
+      
+      case 'saveDraft':
+        return this.saveDraft(message.key!, message.data!);
+      
+      case 'recordFieldHistory':
+        return this.recordFieldHistory(message.url!, message.key!, message.value!);
+      
+      case 'getFieldHistory':
+        return this.getFieldHistory(message.url!, message.key!);
+      
+      case 'getAllFieldHistory':
+        return this.getAllFieldHistory();
+      
+      case 'deleteFieldHistory':
+        return this.deleteFieldHistory(message.url!, message.key!, message.value!);
+      
+      case 'getProfiles':
+        return this.getProfiles();
+      
+      case 'getProfile':
+        return { profile: (await this.getProfiles()).profiles.find(profile => profile.id === message.key) ?? null };
+      
+      case 'saveProfile':
+        return this.saveProfile(message.profile!);
+      
+      case 'deleteProfile':
+        return this.deleteProfile(message.key!);
+      
+      case 'getPageDrafts':
+        return this.getPageDrafts(message.key!);
+      
+      case 'deletePageFormData':
+        return this.deletePageFormData(message.key!);
+      
+      case 'deleteDraft':
+        return this.deleteDraft(message.key!);
+      
+      case 'getDraftMode':
+        return this.getDraftMode();
+      
+      case 'setDraftMode':
+        return this.setDraftMode(message.enabled!);
+      
+      case 'getRestorePolicy':
+        return this.getRestorePolicy(message.url!);
+      
+      case 'getRestorePolicies':
+        return this.getRestorePolicies();
+      
+      case 'setRestorePolicies':
+        return this.setRestorePolicies(message.config!);
+      
+      case 'getSettings':
+        return { settings: await this.getSettings() };
+      
+      case 'setSettings':
+        return { settings: await this.updateSettings(message.settings!) };
+      
+      case 'getSiteAccess':
+        return { access: await this.getSiteAccess(message.url!) };
+      
+      case 'testSiteRule':
+        return this.testSiteRule(message.rule!, message.url);
+      
+      case 'getPageKey':
+        return this.getPageKey(message.url!);
+      
+      case 'testUrlRule':
+        return this.testUrlRule(message.urlRule!);
+      
+      case 'getSitePause':
+        return { paused: await this.isSitePaused(message.url!) };
+      
+      case 'toggleSitePause':
+        return this.toggleSitePause(message.url!);
+      
+      case 'neverSaveSite':
+        return this.neverSaveSite(message.url!);
+      
+      case 'exportFormData':
+        return this.exportFormData(message.keys);
+      
+      case 'previewImport':
+        return this.previewImport(message.content);
+      
+      case 'importFormData':
+        return this.importFormData(message.content, message.strategies ?? {});
+      
+      case 'getEncryptionStatus':
+        return this.getEncryptionStatus();
+      
+      case 'enableEncryption':
+        return this.enableEncryption(message.passphrase!);
+      
+      case 'disableEncryption':
+        return this.disableEncryption(message.passphrase!);
+      
+      case 'unlockEncryption':
+        return this.unlockEncryption(message.passphrase!);
+      
+      case 'lockEncryption':
+        return this.lockEncryption();
+      
       default:
         throw new Error(`Unknown action: ${message.action}`);
     }
   }
 
-  private async saveFormData(key: string, data: StoredFormData): Promise<{ success: boolean }> {
+  private getSnapshotKey(formKey: string, snapshotName?: string): string {
+    // Unnamed snapshots keep the bare form key so entries saved before snapshots existed stay the default
+    return snapshotName ? `${formKey}${SNAPSHOT_KEY_SEPARATOR}${snapshotName}` : formKey;
+  }
+
+  // Saves a snapshot and applies the eviction policy. The response lists any entries that were
+  // removed to make room, so the page that saved can offer to put them back.
+  private async saveFormData(
+    formKey: string,
+    snapshot: StoredFormData
+  ): Promise<{ success: boolean; key: string; evicted: EvictedEntry[] }> {
+    const key = this.getSnapshotKey(formKey, snapshot.snapshotName);
+    // A new save of an entry keeps its pin and usage; the page that saves knows neither
+    const previous = (await readEntry(key))?.entry;
+    const data = await this.sealEntry({
+      ...snapshot,
+      formKey,
+      pinned: snapshot.pinned ?? previous?.pinned,
+      lastUsed: snapshot.lastUsed ?? previous?.lastUsed
+    });
+
+    const settings = await this.getSettings();
+    const preferred = settings.storageArea;
+    const fallback: StorageAreaName = preferred === 'sync' ? 'local' : 'sync';
+    const evicted: EvictedEntry[] = [];
+
     try {
-      // Check storage quota before saving
-      const storageInfo = await chrome.storage.sync.getBytesInUse();
-      const maxBytes = chrome.storage.sync.QUOTA_BYTES || 102400; // 100KB default
-      
-      if (storageInfo > maxBytes * 0.9) { // Use 90% as threshold
-        console.warn('Storage quota nearly full, considering cleanup');
-        await this.cleanupOldData();
+      if (preferred === 'sync') {
+        // Check storage quota before saving
+        const { sync } = await getStorageUsage();
+
+        if (sync.bytesInUse > sync.quotaBytes * settings.quotaThresholdPercent / 100) {
+          console.warn('Storage quota nearly full, considering cleanup');
+          evicted.push(...await this.cleanupOldData(true, key));
+        }
       }
 
-      await chrome.storage.sync.set({ [key]: data });
-      console.log(`Form data saved with key: ${key}`);
+      const { chunkCount } = await writeEntry(preferred, key, data);
+      console.log(`Form data saved to ${preferred} storage with key: ${key}${chunkCount ? ` in ${chunkCount} chunks` : ''}`);
+      evicted.push(...await this.cleanupOldData(false, key));
       
-      return { success: true };
+      return { success: true, key, evicted };
     } catch (error) {
-      console.error('Failed to save form data:', error);
+      console.error(`Failed to save form data to ${preferred} storage:`, error);
       
-      // Try local storage as fallback
+      // Try the other storage as fallback
       try {
-        await chrome.storage.local.set({ [key]: data });
-        console.log(`Form data saved to local storage with key: ${key}`);
-        return { success: true };
-      } catch (localError) {
-        console.error('Failed to save to local storage:', localError);
+        await writeEntry(fallback, key, data);
+        console.log(`Form data saved to ${fallback} storage with key: ${key}`);
+        evicted.push(...await this.cleanupOldData(false, key));
+        return { success: true, key, evicted };
+      } catch (fallbackError) {
+        console.error(`Failed to save to ${fallback} storage:`, fallbackError);
         throw new Error('Failed to save form data to both sync and local storage');
       }
     }
@@ -83,49 +371,69 @@ class BackgroundService {
 
   private async getFormData(key: string): Promise<{ data: StoredFormData | null }> {
     try {
-      // Try sync storage first
-      let result = await chrome.storage.sync.get(key);
-      
-      if (!result[key]) {
-        // Fallback to local storage
-        result = await chrome.storage.local.get(key);
-      }
-
-      return { data: result[key] || null };
+      const record = await readEntry(key);
+      return { data: record ? await this.openEntry(record.entry) : null };
     } catch (error) {
       console.error('Failed to get form data:', error);
       return { data: null };
     }
   }
 
-  private async getAllFormData(): Promise<{ data: { [key: string]: StoredFormData } }> {
+  private async getFormSnapshots(formKey: string): Promise<{ data: { [key: string]: StoredFormData } }> {
+    const { data } = await this.getAllFormData();
+    const snapshots: { [key: string]: StoredFormData } = {};
+
+    for (const [key, value] of Object.entries(data)) {
+      if (value.formKey === formKey) {
+        snapshots[key] = value;
+      }
+    }
+
+    return { data: snapshots };
+  }
+
+  // Returns the snapshots of every form saved for a page, by its page key
+  private async getPageFormData(pageKey: string): Promise<{ data: { [key: string]: StoredFormData } }> {
+    const { data } = await this.getAllFormData();
+    const pageData: { [key: string]: StoredFormData } = {};
+
+    for (const [key, value] of Object.entries(data)) {
+      if (value.formKey!.startsWith(`${pageKey}_form_`)) {
+        pageData[key] = value;
+      }
+    }
+
+    return { data: pageData };
+  }
+
+  // Every saved entry, with the storage area each one is kept in
+  private async getAllFormData(): Promise<{
+    data: { [key: string]: StoredFormData };
+    areas: { [key: string]: StorageAreaName };
+  }> {
     try {
-      const syncData = await chrome.storage.sync.get();
-      const localData = await chrome.storage.local.get();
-      
-      // Merge both storages, with sync taking precedence
-      const allData = { ...localData, ...syncData };
-      
-      // Filter out non-form data (if any other extension data exists)
       const formData: { [key: string]: StoredFormData } = {};
+      const areas: { [key: string]: StorageAreaName } = {};
       
-      for (const [key, value] of Object.entries(allData)) {
-        if (this.isFormData(value)) {
-          formData[key] = value as StoredFormData;
+      for (const [key, record] of await readAllEntries()) {
+        if (key.startsWith(DRAFT_KEY_PREFIX)) {
+          continue;
         }
+        // Entries saved before snapshots existed are the default snapshot of their own key
+        formData[key] = await this.openEntry({ ...record.entry, formKey: record.entry.formKey ?? key });
+        areas[key] = record.area;
       }
 
-      return { data: formData };
+      return { data: formData, areas };
     } catch (error) {
       console.error('Failed to get all form data:', error);
-      return { data: {} };
+      return { data: {}, areas: {} };
     }
   }
 
   private async deleteFormData(key: string): Promise<{ success: boolean }> {
     try {
-      await chrome.storage.sync.remove(key);
-      await chrome.storage.local.remove(key); // Remove from both storages
+      await removeEntries([key]); // Removes the entry from both storages
       console.log(`Form data deleted with key: ${key}`);
       return { success: true };
     } catch (error) {
@@ -134,6 +442,21 @@ class BackgroundService {
     }
   }
 
+  private async deleteFormSnapshots(formKey: string): Promise<{ success: boolean }> {
+    try {
+      const { data } = await this.getFormSnapshots(formKey);
+      const keys = Object.keys(data);
+
+      await removeEntries(keys);
+
+      console.log(`Deleted ${keys.length} snapshots for form: ${formKey}`);
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to delete form snapshots:', error);
+      return { success: false };
+    }
+  }
+
   private async clearAllData(): Promise<{ success: boolean }> {
     try {
       // Get all form data keys first
@@ -141,10 +464,11 @@ class BackgroundService {
       const keys = Object.keys(data);
       
       // Remove only form-related data
-      if (keys.length > 0) {
-        await chrome.storage.sync.remove(keys);
-        await chrome.storage.local.remove(keys);
-      }
+      await removeEntries(keys);
+
+      const draftKeys = Object.keys(await this.getAllDrafts());
+      const historyKeys = Object.keys(await this.getStoredFieldHistory());
+      await chrome.storage.local.remove([...draftKeys, ...historyKeys, EVICTED_KEY]);
       
       console.log(`Cleared ${keys.length} form data entries`);
       return { success: true };
@@ -154,44 +478,1268 @@ class BackgroundService {
     }
   }
 
-  private async cleanupOldData(): Promise<void> {
+  private async saveDraft(formKey: string, draft: StoredFormData): Promise<{ success: boolean }> {
     try {
-      const { data } = await this.getAllFormData();
-      const entries = Object.entries(data);
-      
-      // Sort by timestamp and remove oldest 25%
-      entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-      const toRemove = entries.slice(0, Math.floor(entries.length * 0.25));
-      
-      if (toRemove.length > 0) {
-        const keysToRemove = toRemove.map(([key]) => key);
-        await chrome.storage.sync.remove(keysToRemove);
-        await chrome.storage.local.remove(keysToRemove);
-        console.log(`Cleaned up ${keysToRemove.length} old form data entries`);
+      // Drafts are rewritten on every pause in typing, so they stay out of the sync quota
+      const sealed = await this.sealEntry({ ...draft, formKey });
+      await chrome.storage.local.set({ [`${DRAFT_KEY_PREFIX}${formKey}`]: sealed });
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to save draft:', error);
+      return { success: false };
+    }
+  }
+
+  private async getAllDrafts(): Promise<{ [key: string]: StoredFormData }> {
+    const localData = await chrome.storage.local.get();
+    const drafts: { [key: string]: StoredFormData } = {};
+
+    for (const [key, value] of Object.entries(localData)) {
+      if (key.startsWith(DRAFT_KEY_PREFIX) && isStoredFormData(value)) {
+        drafts[key] = await this.openEntry(value);
+      }
+    }
+
+    return drafts;
+  }
+
+  // Puts a value first in a field's history, dropping an older copy of it and the oldest values
+  // beyond the limit. Nothing is recorded while encryption is locked.
+  private async recordFieldHistory(url: string, fieldKey: string, value: string): Promise<{ success: boolean; error?: string }> {
+    if (value.trim() === '' || value.length > FIELD_HISTORY_MAX_LENGTH) {
+      return { success: false, error: 'unsuitable-value' };
+    }
+
+    const storageKey = this.getFieldHistoryKey(url);
+    const history = await this.openFieldHistory((await chrome.storage.local.get(storageKey))[storageKey]);
+    if (history.encryptedData) {
+      return { success: false, error: 'locked' };
+    }
+
+    const values = (history.fields[fieldKey] ?? []).filter(entry => entry.value !== value);
+    history.fields[fieldKey] = [{ value, usedAt: Date.now() }, ...values].slice(0, FIELD_HISTORY_LIMIT);
+    await chrome.storage.local.set({ [storageKey]: await this.sealFieldHistory(history) });
+    return { success: true };
+  }
+
+  private async getFieldHistory(url: string, fieldKey: string): Promise<{ values: string[] }> {
+    const storageKey = this.getFieldHistoryKey(url);
+    const history = await this.openFieldHistory((await chrome.storage.local.get(storageKey))[storageKey]);
+    return { values: (history.fields[fieldKey] ?? []).map(entry => entry.value) };
+  }
+
+  // Every site's history for the options page, opened where encryption allows
+  private async getAllFieldHistory(): Promise<{ sites: { [origin: string]: { [fieldKey: string]: FieldHistoryValue[] } }; locked: boolean }> {
+    const sites: { [origin: string]: { [fieldKey: string]: FieldHistoryValue[] } } = {};
+    let locked = false;
+
+    for (const [storageKey, stored] of Object.entries(await this.getStoredFieldHistory())) {
+      const history = await this.openFieldHistory(stored);
+      if (history.encryptedData) {
+        locked = true;
+        continue;
+      }
+      sites[storageKey.slice(FIELD_HISTORY_KEY_PREFIX.length)] = history.fields;
+    }
+
+    return { sites, locked };
+  }
+
+  private async deleteFieldHistory(url: string, fieldKey: string, value: string): Promise<{ success: boolean; error?: string }> {
+    const storageKey = this.getFieldHistoryKey(url);
+    const history = await this.openFieldHistory((await chrome.storage.local.get(storageKey))[storageKey]);
+    if (history.encryptedData) {
+      return { success: false, error: 'locked' };
+    }
+
+    const values = (history.fields[fieldKey] ?? []).filter(entry => entry.value !== value);
+    if (values.length > 0) {
+      history.fields[fieldKey] = values;
+    } else {
+      delete history.fields[fieldKey];
+    }
+
+    if (Object.keys(history.fields).length > 0) {
+      await chrome.storage.local.set({ [storageKey]: await this.sealFieldHistory(history) });
+    } else {
+      await chrome.storage.local.remove(storageKey);
+    }
+    return { success: true };
+  }
+
+  // Profiles with their values opened where encryption allows; locked ones keep their ciphertext
+  private async getProfiles(): Promise<{ profiles: Profile[] }> {
+    const stored: Profile[] = (await chrome.storage.local.get(PROFILES_KEY))[PROFILES_KEY] ?? [];
+    const profiles: Profile[] = [];
+    for (const profile of stored) {
+      profiles.push(await this.openProfile(profile));
+    }
+    return { profiles };
+  }
+
+  // Adds a profile or replaces the one with the same id
+  private async saveProfile(profile: Profile): Promise<{ success: boolean; error?: string }> {
+    if (!profile.id || profile.name.trim() === '') {
+      return { success: false, error: 'invalid-profile' };
+    }
+    if (await this.getEncryptionConfig() && !await this.getUnlockedKey()) {
+      return { success: false, error: 'locked' };
+    }
+
+    // Values left empty are dropped, so they never overwrite a field with nothing
+    const values = Object.fromEntries(
+      Object.entries(profile.values).filter(([, value]) => typeof value === 'string' && value.trim() !== '')
+    );
+    const sealed = await this.sealProfile({ id: profile.id, name: profile.name.trim(), values, updatedAt: Date.now() });
+
+    const stored: Profile[] = (await chrome.storage.local.get(PROFILES_KEY))[PROFILES_KEY] ?? [];
+    const index = stored.findIndex(candidate => candidate.id === profile.id);
+    if (index >= 0) {
+      stored[index] = sealed;
+    } else {
+      stored.push(sealed);
+    }
+    await chrome.storage.local.set({ [PROFILES_KEY]: stored });
+    await this.createContextMenus();
+    return { success: true };
+  }
+
+  private async deleteProfile(id: string): Promise<{ success: boolean }> {
+    const stored: Profile[] = (await chrome.storage.local.get(PROFILES_KEY))[PROFILES_KEY] ?? [];
+    await chrome.storage.local.set({ [PROFILES_KEY]: stored.filter(profile => profile.id !== id) });
+    await this.createContextMenus();
+    return { success: true };
+  }
+
+  // Accepts a page URL or a bare origin, as the options page only knows the origin
+  private getFieldHistoryKey(url: string): string {
+    return `${FIELD_HISTORY_KEY_PREFIX}${new URL(url).origin}`;
+  }
+
+  // Field histories as stored, by storage key
+  private async getStoredFieldHistory(): Promise<{ [storageKey: string]: FieldHistory }> {
+    const localData = await chrome.storage.local.get();
+    const histories: { [storageKey: string]: FieldHistory } = {};
+
+    for (const [key, value] of Object.entries(localData)) {
+      if (key.startsWith(FIELD_HISTORY_KEY_PREFIX) && value && typeof value === 'object') {
+        histories[key] = value as FieldHistory;
+      }
+    }
+
+    return histories;
+  }
+
+  // Removes the saved entries and drafts of one page, by its page key
+  private async deletePageFormData(pageKey: string): Promise<{ success: boolean; deleted: number }> {
+    try {
+      const keys = Object.keys((await this.getPageFormData(pageKey)).data);
+      await removeEntries(keys);
+
+      const drafts = await this.getAllDrafts();
+      const draftKeys = Object.keys(drafts).filter(key => drafts[key].formKey?.startsWith(`${pageKey}_form_`));
+      if (draftKeys.length > 0) {
+        await chrome.storage.local.remove(draftKeys);
+      }
+
+      console.log(`Deleted ${keys.length} entries for page: ${pageKey}`);
+      return { success: true, deleted: keys.length };
+    } catch (error) {
+      console.error('Failed to delete page form data:', error);
+      return { success: false, deleted: 0 };
+    }
+  }
+
+  private async getPageDrafts(pageKey: string): Promise<{ data: StoredFormData[] }> {
+    try {
+      const drafts = await this.getAllDrafts();
+      return {
+        data: Object.values(drafts).filter(draft => draft.formKey?.startsWith(`${pageKey}_form_`))
+      };
+    } catch (error) {
+      console.error('Failed to get drafts:', error);
+      return { data: [] };
+    }
+  }
+
+  private async deleteDraft(formKey: string): Promise<{ success: boolean }> {
+    try {
+      await chrome.storage.local.remove(`${DRAFT_KEY_PREFIX}${formKey}`);
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to delete draft:', error);
+      return { success: false };
+    }
+  }
+
+  private async getDraftMode(): Promise<{ enabled: boolean }> {
+    const settings = await this.getSettings();
+    return { enabled: settings.draftMode };
+  }
+
+  private async setDraftMode(enabled: boolean): Promise<{ success: boolean }> {
+    await this.updateSettings({ draftMode: enabled });
+    return { success: true };
+  }
+
+  private async getRestorePolicies(): Promise<{ config: RestorePolicyConfig }> {
+    const settings = await this.getSettings();
+    return { config: settings.restorePolicy };
+  }
+
+  private async setRestorePolicies(config: RestorePolicyConfig): Promise<{ success: boolean }> {
+    await this.updateSettings({ restorePolicy: config });
+    return { success: true };
+  }
+
+  private async getSettings(): Promise<Settings> {
+    const result = await chrome.storage.local.get(SETTINGS_KEY);
+    const stored = result[SETTINGS_KEY];
+
+    if (stored && stored.version === SETTINGS_VERSION) {
+      return this.normalizeSettings(stored);
+    }
+
+    const settings = await this.migrateSettings(stored);
+    await chrome.storage.local.set({ [SETTINGS_KEY]: settings });
+    return settings;
+  }
+
+  private async updateSettings(changes: Partial<Settings>): Promise<Settings> {
+    const previous = await this.getSettings();
+    const settings = this.normalizeSettings({ ...previous, ...changes, version: SETTINGS_VERSION });
+    await chrome.storage.local.set({ [SETTINGS_KEY]: settings });
+
+    if (previous.draftMode && !settings.draftMode) {
+      // Turning drafts off also discards the ones already written
+      const draftKeys = Object.keys(await this.getAllDrafts());
+      if (draftKeys.length > 0) {
+        await chrome.storage.local.remove(draftKeys);
+      }
+    }
+
+    return settings;
+  }
+
+  // Brings settings stored by an older version up to the current schema. Each step upgrades
+  // one version, so settings skipped over several releases pass through all of them.
+  private async migrateSettings(stored: StoredSettings | undefined): Promise<Settings> {
+    const previous = stored && typeof stored === 'object' ? stored : {};
+    let settings: StoredSettings & { version: number } = {
+      ...previous,
+      version: typeof previous.version === 'number' ? previous.version : 0
+    };
+
+    if (settings.version < 1) {
+      // Version 0: draft mode and restore policy were separate keys
+      const legacy = await chrome.storage.local.get([LEGACY_DRAFT_MODE_KEY, LEGACY_RESTORE_POLICY_KEY]);
+      settings = {
+        ...settings,
+        version: 1,
+        draftMode: legacy[LEGACY_DRAFT_MODE_KEY] === true,
+        restorePolicy: { ...DEFAULT_SETTINGS.restorePolicy, ...legacy[LEGACY_RESTORE_POLICY_KEY] }
+      };
+      await chrome.storage.local.remove([LEGACY_DRAFT_MODE_KEY, LEGACY_RESTORE_POLICY_KEY]);
+    }
+
+    if (settings.version < 2) {
+      // Version 1 had no site rules
+      settings = { ...settings, version: 2, siteRules: [] };
+    }
+
+    if (settings.version < 3) {
+      // Version 2 used a fixed list of sensitive field names
+      settings = { ...settings, version: 3, sensitiveFields: DEFAULT_SETTINGS.sensitiveFields };
+    }
+
+    if (settings.version < 4) {
+      // Version 3 always removed the oldest share of entries once sync storage was nearly full
+      settings = {
+        ...settings,
+        version: 4,
+        evictionPolicy: DEFAULT_SETTINGS.evictionPolicy,
+        evictionMaxAgeDays: DEFAULT_SETTINGS.evictionMaxAgeDays,
+        evictionMaxEntries: DEFAULT_SETTINGS.evictionMaxEntries
+      };
+    }
+
+    if (settings.version < 5) {
+      // Version 4 keyed every page by its origin and path
+      settings = { ...settings, version: 5, urlRules: [] };
+    }
+
+    console.log(`Settings migrated to version ${SETTINGS_VERSION}`);
+    return this.normalizeSettings(settings);
+  }
+
+  // Fills in missing settings with defaults and keeps values within their allowed range
+  private normalizeSettings(stored: StoredSettings): Settings {
+    const settings: Settings = { ...DEFAULT_SETTINGS, ...stored, version: SETTINGS_VERSION };
+
+    for (const key of Object.keys(SETTING_LIMITS) as NumericSetting[]) {
+      const [min, max] = SETTING_LIMITS[key];
+      const value = Number(settings[key]);
+      settings[key] = Number.isFinite(value)
+        ? Math.min(max, Math.max(min, value))
+        : DEFAULT_SETTINGS[key];
+    }
+
+    if (settings.storageArea !== 'sync' && settings.storageArea !== 'local') {
+      settings.storageArea = DEFAULT_SETTINGS.storageArea;
+    }
+    if (!EVICTION_POLICIES.includes(settings.evictionPolicy)) {
+      settings.evictionPolicy = DEFAULT_SETTINGS.evictionPolicy;
+    }
+    settings.draftMode = settings.draftMode === true;
+    settings.restorePolicy = { ...DEFAULT_SETTINGS.restorePolicy, ...settings.restorePolicy };
+    settings.siteRules = Array.isArray(settings.siteRules)
+      ? settings.siteRules.filter(rule => rule && typeof rule.pattern === 'string')
+      : [];
+    settings.urlRules = Array.isArray(settings.urlRules)
+      ? settings.urlRules
+        .filter(rule => rule && typeof rule.pattern === 'string')
+        .map(rule => ({
+          pattern: rule.pattern,
+          patternType: rule.patternType === 'regex' ? 'regex' : 'match',
+          pathTemplates: Array.isArray(rule.pathTemplates) ? rule.pathTemplates.filter(isValidPathTemplate) : [],
+          queryMode: URL_QUERY_MODES.includes(rule.queryMode) ? rule.queryMode : 'ignore',
+          queryParams: Array.isArray(rule.queryParams) ? rule.queryParams.filter(param => typeof param === 'string') : [],
+          hashRoutes: rule.hashRoutes === true
+        }))
+      : [];
+
+    const sensitiveFields = settings.sensitiveFields ?? DEFAULT_SETTINGS.sensitiveFields;
+    settings.sensitiveFields = {
+      builtInPatterns: sensitiveFields.builtInPatterns !== false,
+      detectors: { ...DEFAULT_SETTINGS.sensitiveFields.detectors, ...sensitiveFields.detectors },
+      rules: Array.isArray(sensitiveFields.rules)
+        ? sensitiveFields.rules.filter(rule => rule && typeof rule.pattern === 'string')
+        : []
+    };
+
+    return settings;
+  }
+
+  // What the extension may do on a page, from the first site rule matching its URL
+  private async getSiteAccess(url: string): Promise<SiteAccess> {
+    const { siteRules } = await this.getSettings();
+    const rule = siteRules.find(candidate => this.matchesSiteRule(candidate, url));
+    return rule ? { save: rule.save, restore: rule.restore, prompt: rule.prompt } : { ...FULL_ACCESS };
+  }
+
+  // Checks a rule's pattern before it is added and, when a URL is given, whether it matches
+  private testSiteRule(rule: SiteRule, url?: string): { valid: boolean; matches: boolean } {
+    const valid = this.compileSitePattern(rule) !== null;
+    return { valid, matches: valid && !!url && this.matchesSiteRule(rule, url) };
+  }
+
+  // Key the saved data of a page is stored under, from the first URL rule matching it
+  private async getPageKey(url: string): Promise<{ key: string; rule: number }> {
+    const { urlRules } = await this.getSettings();
+    const index = urlRules.findIndex(rule => this.matchesSiteRule(rule, url));
+    return { key: normalizePageKey(url, index >= 0 ? urlRules[index] : null), rule: index };
+  }
+
+  // Checks a URL rule's pattern and path templates before it is added
+  private testUrlRule(rule: UrlRule): { valid: boolean; error?: string } {
+    if (this.compileSitePattern(rule) === null) {
+      return { valid: false, error: 'invalid-pattern' };
+    }
+    if (!rule.pathTemplates.every(isValidPathTemplate)) {
+      return { valid: false, error: 'invalid-template' };
+    }
+    return { valid: true };
+  }
+
+  // URL rules select pages the same way site rules do
+  private matchesSiteRule(rule: Pick<SiteRule, 'pattern' | 'patternType'>, url: string): boolean {
+    // Match patterns never see the fragment; regular expressions get the URL as it is
+    const target = rule.patternType === 'match' ? url.split('#')[0] : url;
+    return this.compileSitePattern(rule)?.test(target) ?? false;
+  }
+
+  private compileSitePattern(rule: Pick<SiteRule, 'pattern' | 'patternType'>): RegExp | null {
+    if (rule.patternType === 'regex') {
+      try {
+        return new RegExp(rule.pattern);
+      } catch {
+        return null;
+      }
+    }
+    return this.matchPatternToRegExp(rule.pattern);
+  }
+
+  // Converts a match pattern such as `*://*.example.com/account/*` to a regular expression.
+  // The scheme and path may be left out (`*.bank.example`), covering every page of the host.
+  private matchPatternToRegExp(pattern: string): RegExp | null {
+    if (pattern.trim() === '<all_urls>') {
+      return /^(https?|file|ftp):\/\//;
+    }
+
+    const match = /^(?:(\*|https?|file|ftp):\/\/)?(\*|(?:\*\.)?[^/*]+)?(\/.*)?$/.exec(pattern.trim());
+    if (!match || (!match[2] && match[1] !== 'file')) {
+      return null;
+    }
+
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const scheme = match[1] ?? '*';
+    // Host names in URLs are always lower case; paths are matched as written
+    const host = (match[2] ?? '').toLowerCase();
+    const path = match[3] ?? '/*';
+
+    let hostPattern: string;
+    if (host === '*') {
+      hostPattern = '[^/]*';
+    } else if (host.startsWith('*.')) {
+      hostPattern = `([^/]*\\.)?${escape(host.slice(2))}`;
+    } else {
+      hostPattern = escape(host);
+    }
+
+    const schemePattern = scheme === '*' ? 'https?' : scheme;
+    const pathPattern = path.split('*').map(escape).join('.*');
+    return new RegExp(`^${schemePattern}:\\/\\/${hostPattern}${pathPattern}$`);
+  }
+
+  // Keeps the toolbar badge in step with the site rules of each tab
+  private setupActionListeners() {
+    chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+      if (changeInfo.status === 'complete') {
+        this.updateActionBadge(tabId, tab.url);
+      }
+    });
+  }
+
+  // The rule the popup adds to pause a whole site: every capability off for its origin
+  private isPauseRule(rule: SiteRule, url: string): boolean {
+    return rule.patternType === 'match' && rule.pattern === `${new URL(url).origin}/*` &&
+      !rule.save && !rule.restore && !rule.prompt;
+  }
+
+  private async isSitePaused(url: string): Promise<boolean> {
+    if (!/^https?:/.test(url)) {
+      return false;
+    }
+    const { siteRules } = await this.getSettings();
+    return siteRules.some(rule => this.isPauseRule(rule, url));
+  }
+
+  private async toggleSitePause(url: string): Promise<{ success: boolean; paused: boolean }> {
+    if (!/^https?:/.test(url)) {
+      return { success: false, paused: false };
+    }
+
+    const pattern = `${new URL(url).origin}/*`;
+    const { siteRules } = await this.getSettings();
+    const paused = siteRules.some(rule => this.isPauseRule(rule, url));
+    const updatedRules = paused
+      ? siteRules.filter(rule => !this.isPauseRule(rule, url))
+      // Placed first so it wins over broader rules allowing the site
+      : [{ pattern, patternType: 'match' as const, save: false, restore: false, prompt: false }, ...siteRules];
+
+    await this.updateSettings({ siteRules: updatedRules });
+    console.log(`Form Memory ${paused ? 'resumed' : 'paused'} on ${pattern}`);
+    return { success: true, paused: !paused };
+  }
+
+  // Turns off saving and the save prompt for a site while keeping restores. Placed first so it
+  // wins over broader rules; a rule already written for the same pattern is replaced.
+  private async neverSaveSite(url: string): Promise<{ success: boolean; error?: string }> {
+    if (!/^https?:/.test(url)) {
+      return { success: false, error: 'unsupported-url' };
+    }
+
+    const pattern = `${new URL(url).origin}/*`;
+    const { siteRules } = await this.getSettings();
+    if (siteRules.some(rule => this.isPauseRule(rule, url))) {
+      return { success: true };
+    }
+
+    const updatedRules: SiteRule[] = [
+      { pattern, patternType: 'match', save: false, restore: true, prompt: false },
+      ...siteRules.filter(rule => rule.patternType !== 'match' || rule.pattern !== pattern)
+    ];
+    await this.updateSettings({ siteRules: updatedRules });
+    console.log(`Saving turned off on ${pattern}`);
+    return { success: true };
+  }
+
+  // Keyboard shortcuts and context menu items act on the page, so they are passed on to the
+  // tab's content script, which knows the focused or right-clicked form
+  private setupCommandListeners() {
+    // Menu items persist across service worker restarts and only need creating on install or update
+    chrome.runtime.onInstalled.addListener(() => this.createContextMenus());
+
+    chrome.contextMenus.onClicked.addListener((info, tab) => {
+      const menuItemId = String(info.menuItemId);
+      if (menuItemId.startsWith(PROFILE_MENU_ITEM_PREFIX)) {
+        this.fillProfileInTab(menuItemId.slice(PROFILE_MENU_ITEM_PREFIX.length), tab);
+      } else {
+        this.runCommand(menuItemId as FormCommand, tab, true);
+      }
+    });
+    chrome.commands.onCommand.addListener((command, tab) => {
+      this.runCommand(command as FormCommand, tab, false);
+    });
+  }
+
+  // Also called when profiles change, as each profile has an item of its own
+  private async createContextMenus() {
+    const documentUrlPatterns = ['http://*/*', 'https://*/*'];
+    await chrome.contextMenus.removeAll();
+    CONTEXT_MENU_ITEMS.forEach(item => {
+      chrome.contextMenus.create({ ...item, documentUrlPatterns });
+    });
+
+    // Profile names are stored in plain text, so the menu lists them while encryption is locked
+    const { profiles } = await this.getProfiles();
+    if (profiles.length === 0) {
+      return;
+    }
+    chrome.contextMenus.create({ id: PROFILE_MENU_ID, title: 'プロフィールで入力', contexts: ['page', 'editable'], documentUrlPatterns });
+    profiles.forEach(profile => {
+      chrome.contextMenus.create({
+        id: `${PROFILE_MENU_ITEM_PREFIX}${profile.id}`,
+        parentId: PROFILE_MENU_ID,
+        title: profile.name,
+        contexts: ['page', 'editable'],
+        documentUrlPatterns
+      });
+    });
+  }
+
+  private async fillProfileInTab(profileId: string, tab: chrome.tabs.Tab | undefined) {
+    if (tab?.id === undefined || !tab.url || !/^https?:/.test(tab.url)) {
+      return;
+    }
+
+    try {
+      await chrome.tabs.sendMessage(tab.id, { action: 'fillProfile', profileId, fromMenu: true }, { frameId: 0 });
+    } catch (error) {
+      console.log(`Could not fill profile in tab ${tab.id}:`, error);
+    }
+  }
+
+  private async runCommand(command: FormCommand, tab: chrome.tabs.Tab | undefined, fromMenu: boolean) {
+    if (tab?.id === undefined || !tab.url || !/^https?:/.test(tab.url)) {
+      return;
+    }
+
+    try {
+      await chrome.tabs.sendMessage(tab.id, { action: 'runCommand', command, fromMenu }, { frameId: 0 });
+    } catch (error) {
+      // Paused sites and tabs opened before the extension was loaded have no Form Memory running
+      console.log(`Could not run ${command} in tab ${tab.id}:`, error);
+    }
+  }
+
+  // Marks tabs where a site rule turns Form Memory off completely
+  private async updateActionBadge(tabId: number, url?: string) {
+    const access = url && /^https?:/.test(url) ? await this.getSiteAccess(url) : FULL_ACCESS;
+    const off = !access.save && !access.restore && !access.prompt;
+
+    await chrome.action.setBadgeText({ tabId, text: off ? 'OFF' : '' });
+    await chrome.action.setBadgeBackgroundColor({ tabId, color: '#6c757d' });
+    await chrome.action.setTitle({
+      tabId,
+      title: off ? 'Form Memory: このサイトでは停止中' : 'Form Memory'
+    });
+  }
+
+  // Resolves the policy for a page: its origin's override, else the default
+  private async getRestorePolicy(url: string): Promise<{ policy: RestorePolicy }> {
+    const { config } = await this.getRestorePolicies();
+    const origin = new URL(url).origin;
+    return { policy: config.sites[origin] ?? config.default };
+  }
+
+  // Removes entries according to the eviction policy and returns what was removed. Pinned entries
+  // and the entry being saved are never removed; the rest go least recently used first.
+  private async cleanupOldData(quotaExceeded: boolean, savingKey: string): Promise<EvictedEntry[]> {
+    try {
+      const settings = await this.getSettings();
+      // The LRU policy only frees space once the quota threshold is passed
+      if (settings.evictionPolicy === 'lru' && !quotaExceeded) {
+        return [];
+      }
+
+      const records = Array.from(await readAllEntries())
+        .filter(([key]) => !key.startsWith(DRAFT_KEY_PREFIX));
+      const candidates = records
+        .filter(([key, record]) => key !== savingKey && !record.entry.pinned)
+        .sort((a, b) => this.getLastUsed(a[1].entry) - this.getLastUsed(b[1].entry));
+
+      let toRemove: typeof candidates;
+      switch (settings.evictionPolicy) {
+        case 'maxAge': {
+          const cutoff = Date.now() - settings.evictionMaxAgeDays * 24 * 60 * 60 * 1000;
+          toRemove = candidates.filter(([, record]) => this.getLastUsed(record.entry) < cutoff);
+          break;
+        }
+        case 'maxCount':
+          // Pinned entries count towards the limit, but only unpinned ones make way
+          toRemove = candidates.slice(0, Math.max(0, records.length - settings.evictionMaxEntries));
+          break;
+        default:
+          toRemove = candidates.slice(0, Math.floor(candidates.length * settings.evictionPercent / 100));
+      }
+
+      if (toRemove.length === 0) {
+        return [];
       }
+
+      const evictedAt = Date.now();
+      const stash = await this.getEvictionStash();
+      toRemove.forEach(([key, record]) => {
+        stash.entries[key] = { entry: record.entry, area: record.area, evictedAt };
+      });
+      await chrome.storage.local.set({ [EVICTED_KEY]: stash });
+
+      const keysToRemove = toRemove.map(([key]) => key);
+      await removeEntries(keysToRemove);
+      console.log(`Cleaned up ${keysToRemove.length} form data entries (${settings.evictionPolicy})`);
+
+      return toRemove.map(([key, record]) => ({
+        key,
+        url: record.entry.url,
+        snapshotName: record.entry.snapshotName,
+        evictedAt
+      }));
     } catch (error) {
       console.error('Failed to cleanup old data:', error);
+      return [];
+    }
+  }
+
+  private getLastUsed(entry: StoredFormData): number {
+    return Math.max(entry.lastUsed ?? 0, entry.timestamp);
+  }
+
+  // Records that an entry was restored, unless that was already recorded recently
+  private async markFormUsed(key: string): Promise<{ success: boolean }> {
+    const now = Date.now();
+    try {
+      const record = await readEntry(key);
+      if (!record) {
+        return { success: false };
+      }
+      if (now - this.getLastUsed(record.entry) < LAST_USED_RESOLUTION_MS) {
+        return { success: true };
+      }
+    } catch (error) {
+      console.error('Failed to read form data:', error);
+      return { success: false };
+    }
+    return this.updateEntryMetadata(key, { lastUsed: now });
+  }
+
+  // Changes an entry's pin or usage without touching its values, which may be encrypted and locked
+  private async updateEntryMetadata(
+    key: string,
+    changes: Pick<StoredFormData, 'pinned' | 'lastUsed'>
+  ): Promise<{ success: boolean }> {
+    try {
+      const record = await readEntry(key);
+      if (!record) {
+        return { success: false };
+      }
+      await writeEntry(record.area, key, { ...record.entry, ...changes });
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to update form data:', error);
+      return { success: false };
+    }
+  }
+
+  // Recently evicted entries; expired ones are dropped on the way
+  private async getEvictionStash(): Promise<EvictionStash> {
+    const result = await chrome.storage.local.get(EVICTED_KEY);
+    const entries: EvictionStash['entries'] = result[EVICTED_KEY]?.entries ?? {};
+    const cutoff = Date.now() - EVICTION_RECOVERY_MS;
+
+    for (const [key, evicted] of Object.entries(entries)) {
+      if (evicted.evictedAt < cutoff) {
+        delete entries[key];
+      }
+    }
+    return { entries };
+  }
+
+  private async getEvictedEntries(): Promise<{ data: EvictedEntry[] }> {
+    const { entries } = await this.getEvictionStash();
+    return {
+      data: Object.entries(entries).map(([key, { entry, evictedAt }]) => ({
+        key,
+        url: entry.url,
+        snapshotName: entry.snapshotName,
+        evictedAt
+      }))
+    };
+  }
+
+  // Puts evicted entries back where they were, or all of them when no keys are given
+  private async restoreEvicted(keys?: string[]): Promise<{ success: boolean; restored: number }> {
+    const stash = await this.getEvictionStash();
+    let restored = 0;
+
+    for (const key of keys ?? Object.keys(stash.entries)) {
+      const evicted = stash.entries[key];
+      if (!evicted) {
+        continue;
+      }
+      try {
+        await writeEntry(evicted.area, key, evicted.entry);
+      } catch (error) {
+        // The area may still be full; the entry is better kept on this device than lost
+        console.warn(`Restoring ${key} to local storage:`, error);
+        await writeEntry('local', key, evicted.entry);
+      }
+      delete stash.entries[key];
+      restored++;
+    }
+
+    await chrome.storage.local.set({ [EVICTED_KEY]: stash });
+    console.log(`Restored ${restored} evicted entries`);
+    return { success: true, restored };
+  }
+
+  // Wraps the saved entries, or only those under the given keys, in the export envelope
+  private async exportFormData(keys?: string[]): Promise<ExportEnvelope> {
+    const { data } = await this.getAllFormData();
+    const entries = keys
+      ? Object.fromEntries(keys.filter(key => data[key]).map(key => [key, data[key]]))
+      : data;
+
+    return {
+      format: EXPORT_FORMAT,
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      extensionVersion: chrome.runtime.getManifest().version,
+      count: Object.keys(entries).length,
+      entries
+    };
+  }
+
+  // Entries of an import file: an export envelope, or the bare key-to-entry map earlier versions wrote
+  private unwrapImport(content: unknown): { entries: { [key: string]: unknown }; error?: string } {
+    if (!this.isRecord(content)) {
+      return { entries: {}, error: 'malformed-file' };
+    }
+    if (content.format !== EXPORT_FORMAT) {
+      return { entries: content };
+    }
+
+    if (typeof content.schemaVersion !== 'number' || content.schemaVersion > EXPORT_SCHEMA_VERSION) {
+      return { entries: {}, error: 'unsupported-version' };
+    }
+    const entries = content.entries;
+    if (!this.isRecord(entries)) {
+      return { entries: {}, error: 'malformed-file' };
+    }
+    // A count that does not match points to a truncated or hand-edited file
+    if (content.count !== Object.keys(entries).length) {
+      return { entries: {}, error: 'count-mismatch' };
+    }
+    return { entries };
+  }
+
+  // Checks a backup against the stored entries without writing anything
+  private async previewImport(content: unknown): Promise<{ entries: ImportPreviewEntry[]; error?: string }> {
+    const { entries, error } = this.unwrapImport(content);
+    if (error) {
+      return { entries: [], error };
+    }
+
+    const { data } = await this.getAllFormData();
+    return { entries: this.readImportEntries(entries, data).map(({ preview }) => preview) };
+  }
+
+  private async importFormData(
+    content: unknown,
+    strategies: { [key: string]: ImportStrategy }
+  ): Promise<{ success: boolean; imported: number; skipped: number; error?: string }> {
+    const { entries, error } = this.unwrapImport(content);
+    if (error) {
+      return { success: false, imported: 0, skipped: 0, error };
+    }
+
+    const status = await this.getEncryptionStatus();
+    if (status.enabled && !status.unlocked) {
+      return { success: false, imported: 0, skipped: 0, error: 'locked' };
+    }
+
+    const { data } = await this.getAllFormData();
+    const takenKeys = new Set(Object.keys(data));
+    let imported = 0;
+    let skipped = 0;
+
+    for (const { preview, entry } of this.readImportEntries(entries, data)) {
+      if (!entry) {
+        skipped++;
+        continue;
+      }
+
+      const formKey = entry.formKey!;
+      let snapshot = entry;
+      if (preview.status === 'conflict') {
+        const strategy = strategies[preview.key] ?? 'newer';
+        if (strategy === 'existing' || (strategy === 'newer' && entry.timestamp <= preview.existingTimestamp!)) {
+          skipped++;
+          continue;
+        }
+        if (strategy === 'both') {
+          snapshot = { ...entry, snapshotName: this.getImportedSnapshotName(formKey, entry.snapshotName, takenKeys) };
+        }
+      }
+
+      try {
+        const result = await this.saveFormData(formKey, snapshot);
+        takenKeys.add(result.key);
+        imported++;
+      } catch (error) {
+        console.error(`Failed to import ${preview.key}:`, error);
+        skipped++;
+      }
+    }
+
+    console.log(`Imported ${imported} entries, skipped ${skipped}`);
+    return { success: true, imported, skipped };
+  }
+
+  // Validates each entry of a backup and pairs it with the stored entry it would replace
+  private readImportEntries(
+    entries: { [key: string]: unknown },
+    existing: { [key: string]: StoredFormData }
+  ): { preview: ImportPreviewEntry; entry: StoredFormData | null }[] {
+    return Object.entries(entries).map(([fileKey, value]) => {
+      if (!this.isImportableEntry(value)) {
+        return { preview: { key: fileKey, status: 'invalid', error: 'malformed' }, entry: null };
+      }
+
+      // Keys are rebuilt the way saveFormData builds them, so the entry lands where a save would put it.
+      // Any other key could overwrite, and the stale-copy cleanup of writeEntry then delete, an item
+      // such as the settings or the encryption config.
+      const { encryptedData, ...plain } = value;
+      const entry: StoredFormData = { ...plain, formKey: value.formKey ?? fileKey };
+      if (!this.isImportableFormKey(entry.formKey!)) {
+        return { preview: { key: fileKey, status: 'invalid', url: entry.url, error: 'invalid-key' }, entry: null };
+      }
+      const key = this.getSnapshotKey(entry.formKey!, entry.snapshotName);
+      const preview: ImportPreviewEntry = {
+        key,
+        status: existing[key] ? 'conflict' : 'new',
+        url: entry.url,
+        snapshotName: entry.snapshotName,
+        timestamp: entry.timestamp,
+        fieldCount: Object.keys(entry.data).length,
+        existingTimestamp: existing[key]?.timestamp
+      };
+
+      // Entries exported while locked carry only ciphertext, which may belong to another passphrase
+      if (encryptedData) {
+        return { preview: { ...preview, status: 'invalid', error: 'encrypted' }, entry: null };
+      }
+      return { preview, entry };
+    });
+  }
+
+  // Every property of an entry is checked, as a value of the wrong shape would throw later while
+  // a page restores or the options page renders, where the entry can no longer be deleted
+  private isImportableEntry(value: unknown): value is StoredFormData {
+    return this.isRecord(value) &&
+           typeof value.url === 'string' &&
+           this.isHttpUrl(value.url) &&
+           typeof value.timestamp === 'number' && Number.isFinite(value.timestamp) &&
+           this.isRecord(value.data) &&
+           Object.values(value.data).every(fieldValue => this.isFormFieldValue(fieldValue)) &&
+           (value.formKey === undefined || typeof value.formKey === 'string') &&
+           (value.snapshotName === undefined || typeof value.snapshotName === 'string') &&
+           (value.fingerprint === undefined || this.isFormFingerprint(value.fingerprint)) &&
+           (value.locators === undefined ||
+             (this.isRecord(value.locators) && Object.values(value.locators).every(locator => this.isFieldLocator(locator)))) &&
+           (value.pinned === undefined || typeof value.pinned === 'boolean') &&
+           (value.lastUsed === undefined || (typeof value.lastUsed === 'number' && Number.isFinite(value.lastUsed)));
+  }
+
+  private isFormFingerprint(value: unknown): value is FormFingerprint {
+    return this.isRecord(value) &&
+           typeof value.id === 'string' &&
+           typeof value.name === 'string' &&
+           typeof value.action === 'string' &&
+           Array.isArray(value.fields) && value.fields.every(field => typeof field === 'string') &&
+           typeof value.domPath === 'string' &&
+           (value.scopePath === undefined || typeof value.scopePath === 'string');
+  }
+
+  private isFieldLocator(value: unknown): value is FieldLocator {
+    return this.isRecord(value) &&
+           typeof value.path === 'string' &&
+           ['name', 'id', 'label', 'ariaLabel', 'placeholder']
+             .every(property => value[property] === undefined || typeof value[property] === 'string');
+  }
+
+  private isRecord(value: unknown): value is { [key: string]: unknown } {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  private isHttpUrl(url: string): boolean {
+    try {
+      return /^https?:$/.test(new URL(url).protocol);
+    } catch {
+      return false;
+    }
+  }
+
+  private isFormFieldValue(value: unknown): value is FormFieldValue {
+    if (typeof value === 'string' || typeof value === 'boolean') {
+      return true;
+    }
+    if (Array.isArray(value)) {
+      return value.every(item => typeof item === 'string');
+    }
+    if (!this.isRecord(value)) {
+      return false;
+    }
+    if (value.kind === 'richtext') {
+      return typeof value.html === 'string' && typeof value.text === 'string';
+    }
+    return value.kind === 'typed' && typeof value.inputType === 'string' && typeof value.value === 'string';
+  }
+
+  private isImportableFormKey(formKey: string): boolean {
+    return FORM_KEY_PATTERN.test(formKey) && !formKey.includes(SNAPSHOT_KEY_SEPARATOR);
+  }
+
+  // Name for an imported copy kept next to an existing snapshot of the same name
+  private getImportedSnapshotName(formKey: string, snapshotName: string | undefined, takenKeys: Set<string>): string {
+    const base = `${snapshotName || 'デフォルト'} (インポート)`;
+    let name = base;
+    for (let n = 2; takenKeys.has(this.getSnapshotKey(formKey, name)); n++) {
+      name = `${base} ${n}`;
+    }
+    return name;
+  }
+
+  private async getEncryptionConfig(): Promise<EncryptionConfig | null> {
+    const result = await chrome.storage.local.get(ENCRYPTION_KEY);
+    return result[ENCRYPTION_KEY] ?? null;
+  }
+
+  private async getEncryptionStatus(): Promise<{ enabled: boolean; unlocked: boolean }> {
+    const config = await this.getEncryptionConfig();
+    return { enabled: !!config, unlocked: !!config && !!(await this.getUnlockedKey()) };
+  }
+
+  // Encrypts every saved entry and draft with a key derived from the passphrase
+  private async enableEncryption(passphrase: string): Promise<{ success: boolean; error?: string }> {
+    if (await this.getEncryptionConfig()) {
+      return { success: false, error: 'already-enabled' };
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const config: EncryptionConfig = {
+      salt: this.toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await this.encrypt(key, VERIFIER_TEXT)
+    };
+
+    // Read everything while it is still plain text, then rewrite it once the config is in place
+    const { data } = await this.getAllFormData();
+    const drafts = await this.getAllDrafts();
+    const histories = await this.getStoredFieldHistory();
+    const { profiles } = await this.getProfiles();
+    await this.rememberKey(key);
+    await chrome.storage.local.set({ [ENCRYPTION_KEY]: config });
+    await this.rewriteEntries({ ...data, ...drafts });
+    await this.rewriteFieldHistory(histories);
+    await this.rewriteProfiles(profiles);
+    // Evicted entries would come back in the wrong form, so they are given up
+    await chrome.storage.local.remove(EVICTED_KEY);
+
+    console.log('Encryption enabled');
+    return { success: true };
+  }
+
+  // Decrypts every entry back to plain text; the passphrase is asked for again on purpose.
+  // Anything that fails to decrypt would be written back empty, so nothing is changed then and
+  // the keys of the unreadable items are reported instead.
+  private async disableEncryption(passphrase: string): Promise<{ success: boolean; error?: string; keys?: string[] }> {
+    const unlocked = await this.unlockEncryption(passphrase);
+    if (!unlocked.success) {
+      return unlocked;
+    }
+
+    const { data } = await this.getAllFormData();
+    const drafts = await this.getAllDrafts();
+    const histories = await this.getStoredFieldHistory();
+    for (const storageKey of Object.keys(histories)) {
+      histories[storageKey] = await this.openFieldHistory(histories[storageKey]);
+    }
+    const { profiles } = await this.getProfiles();
+
+    const undecryptable = [
+      ...Object.entries({ ...data, ...drafts, ...histories })
+        .filter(([, value]) => value.encryptedData)
+        .map(([key]) => key),
+      ...profiles.filter(profile => profile.encryptedData).map(profile => `${PROFILES_KEY}:${profile.name}`)
+    ];
+    if (undecryptable.length > 0) {
+      console.error('Encryption left enabled; failed to decrypt:', undecryptable);
+      return { success: false, error: 'undecryptable', keys: undecryptable };
+    }
+
+    await chrome.storage.local.remove(ENCRYPTION_KEY);
+    await this.rewriteEntries({ ...data, ...drafts });
+    await this.rewriteFieldHistory(histories);
+    await this.rewriteProfiles(profiles);
+    // Evicted entries would come back in the wrong form, so they are given up
+    await chrome.storage.local.remove(EVICTED_KEY);
+    await this.lockEncryption();
+
+    console.log('Encryption disabled');
+    return { success: true };
+  }
+
+  private async unlockEncryption(passphrase: string): Promise<{ success: boolean; error?: string }> {
+    const config = await this.getEncryptionConfig();
+    if (!config) {
+      return { success: false, error: 'not-enabled' };
+    }
+
+    const key = await this.deriveKey(passphrase, this.fromBase64(config.salt), config.iterations);
+    try {
+      await this.decrypt(key, config.verifier);
+    } catch {
+      return { success: false, error: 'wrong-passphrase' };
+    }
+
+    await this.rememberKey(key);
+    return { success: true };
+  }
+
+  private async lockEncryption(): Promise<{ success: boolean }> {
+    this.encryptionKey = null;
+    await chrome.storage.session.remove(SESSION_KEY_NAME);
+    return { success: true };
+  }
+
+  private async rememberKey(key: CryptoKey) {
+    this.encryptionKey = key;
+    const raw = await crypto.subtle.exportKey('raw', key);
+    await chrome.storage.session.set({ [SESSION_KEY_NAME]: this.toBase64(new Uint8Array(raw)) });
+  }
+
+  private async getUnlockedKey(): Promise<CryptoKey | null> {
+    if (this.encryptionKey) {
+      return this.encryptionKey;
+    }
+
+    // The service worker may have been restarted since the key was unlocked
+    const result = await chrome.storage.session.get(SESSION_KEY_NAME);
+    if (!result[SESSION_KEY_NAME]) {
+      return null;
+    }
+    this.encryptionKey = await crypto.subtle.importKey(
+      'raw', this.fromBase64(result[SESSION_KEY_NAME]), 'AES-GCM', true, ['encrypt', 'decrypt']
+    );
+    return this.encryptionKey;
+  }
+
+  // Prepares an entry for storage: its values are encrypted while encryption is on. Saving while
+  // locked fails, as the entry would otherwise be written in plain text.
+  private async sealEntry(entry: StoredFormData): Promise<StoredFormData> {
+    const { encryptedData, ...plain } = entry;
+    if (!await this.getEncryptionConfig()) {
+      return plain;
+    }
+
+    const key = await this.getUnlockedKey();
+    if (!key) {
+      throw new Error('Saved data is encrypted and locked');
+    }
+    return { ...plain, data: {}, encryptedData: await this.encrypt(key, JSON.stringify(plain.data)) };
+  }
+
+  // Decrypts an entry read from storage. Locked entries keep their ciphertext and empty data,
+  // so callers can tell them apart.
+  private async openEntry(entry: StoredFormData): Promise<StoredFormData> {
+    if (!entry.encryptedData) {
+      return entry;
+    }
+
+    const key = await this.getUnlockedKey();
+    if (!key) {
+      return entry;
+    }
+
+    try {
+      const { encryptedData, ...plain } = entry;
+      return { ...plain, data: JSON.parse(await this.decrypt(key, encryptedData)) };
+    } catch (error) {
+      console.error('Failed to decrypt form data:', error);
+      return entry;
+    }
+  }
+
+  // Writes entries back to the storage area they came from, sealed with the current encryption state
+  private async rewriteEntries(entries: { [key: string]: StoredFormData }) {
+    const records = await readAllEntries();
+
+    for (const [key, entry] of Object.entries(entries)) {
+      const sealed = await this.sealEntry(entry);
+      const area = records.get(key)?.area ?? 'local';
+      try {
+        await writeEntry(area, key, sealed);
+      } catch (error) {
+        // Ciphertext is larger than the values, so the sync quota may no longer hold the entry
+        console.warn(`Moving ${key} to local storage:`, error);
+        await writeEntry('local', key, sealed);
+      }
+    }
+  }
+
+  // Like sealEntry, for the field history of one site
+  private async sealFieldHistory(history: FieldHistory): Promise<FieldHistory> {
+    const plain: FieldHistory = { fields: history.fields };
+    if (!await this.getEncryptionConfig()) {
+      return plain;
+    }
+
+    const key = await this.getUnlockedKey();
+    if (!key) {
+      throw new Error('Saved data is encrypted and locked');
+    }
+    return { fields: {}, encryptedData: await this.encrypt(key, JSON.stringify(plain.fields)) };
+  }
+
+  // Like openEntry: a missing history is empty and a locked one keeps its ciphertext
+  private async openFieldHistory(history: FieldHistory | undefined): Promise<FieldHistory> {
+    if (!history) {
+      return { fields: {} };
+    }
+    if (!history.encryptedData) {
+      return history;
+    }
+
+    const key = await this.getUnlockedKey();
+    if (!key) {
+      return history;
+    }
+
+    try {
+      return { fields: JSON.parse(await this.decrypt(key, history.encryptedData)) };
+    } catch (error) {
+      console.error('Failed to decrypt field history:', error);
+      return history;
+    }
+  }
+
+  private async rewriteFieldHistory(histories: { [storageKey: string]: FieldHistory }) {
+    for (const [storageKey, history] of Object.entries(histories)) {
+      await chrome.storage.local.set({ [storageKey]: await this.sealFieldHistory(history) });
     }
   }
 
-  private isFormData(value: any): boolean {
-    return value && 
-           typeof value === 'object' && 
-           'url' in value && 
-           'data' in value && 
-           'timestamp' in value;
+  // Like sealEntry, for a profile; its name stays readable
+  private async sealProfile(profile: Profile): Promise<Profile> {
+    const { encryptedData, ...plain } = profile;
+    if (!await this.getEncryptionConfig()) {
+      return plain;
+    }
+
+    const key = await this.getUnlockedKey();
+    if (!key) {
+      throw new Error('Saved data is encrypted and locked');
+    }
+    return { ...plain, values: {}, encryptedData: await this.encrypt(key, JSON.stringify(plain.values)) };
+  }
+
+  private async openProfile(profile: Profile): Promise<Profile> {
+    if (!profile.encryptedData) {
+      return profile;
+    }
+
+    const key = await this.getUnlockedKey();
+    if (!key) {
+      return profile;
+    }
+
+    try {
+      const { encryptedData, ...plain } = profile;
+      return { ...plain, values: JSON.parse(await this.decrypt(key, encryptedData)) };
+    } catch (error) {
+      console.error('Failed to decrypt profile:', error);
+      return profile;
+    }
+  }
+
+  private async rewriteProfiles(profiles: Profile[]) {
+    const sealed: Profile[] = [];
+    for (const profile of profiles) {
+      sealed.push(await this.sealProfile(profile));
+    }
+    await chrome.storage.local.set({ [PROFILES_KEY]: sealed });
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private async encrypt(key: CryptoKey, plaintext: string): Promise<EncryptedPayload> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+    return { iv: this.toBase64(iv), ciphertext: this.toBase64(new Uint8Array(ciphertext)) };
+  }
+
+  private async decrypt(key: CryptoKey, payload: EncryptedPayload): Promise<string> {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.fromBase64(payload.iv) },
+      key,
+      this.fromBase64(payload.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  private toBase64(bytes: Uint8Array): string {
+    return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+  }
+
+  private fromBase64(text: string): Uint8Array {
+    return Uint8Array.from(atob(text), char => char.charCodeAt(0));
   }
 
   private setupStorageChangeListener() {
     chrome.storage.onChanged.addListener((changes, areaName) => {
       console.log(`Storage changed in ${areaName}:`, Object.keys(changes));
-      
-      // Could implement additional logic here like:
-      // - Sync between devices
-      // - Notify content scripts of changes
-      // - Update extension badge
+
+      if (areaName === 'local' && changes[SETTINGS_KEY]?.newValue) {
+        this.broadcastSettings(changes[SETTINGS_KEY].newValue);
+      }
     });
   }
+
+  // Pushes changed settings to the content script of every open tab, so they apply without a reload
+  private async broadcastSettings(settings: Settings) {
+    const tabs = await chrome.tabs.query({});
+    for (const tab of tabs) {
+      if (tab.id === undefined) {
+        continue;
+      }
+      this.updateActionBadge(tab.id, tab.url).catch(() => {});
+      // Tabs without the content script (e.g. chrome:// pages) reject the message
+      chrome.tabs.sendMessage(tab.id, { action: 'settingsChanged', settings }).catch(() => {});
+    }
+  }
 }
 
 // Initialize the background service
@@ -1,69 +1,484 @@
-interface FormData {
-  [fieldName: string]: string | boolean;
-}
-
-interface StoredFormData {
-  url: string;
-  data: FormData;
-  timestamp: number;
+// Content scripts run in an isolated world where `window.customElements` is null, so the
+// registry is polyfilled here, before any of the components below define their elements.
+import '@webcomponents/custom-elements';
+import type { EvictedEntry, FieldLocator, FormCommand, FormData, FormFieldValue, FormFingerprint, Profile, RestorePolicy, SensitiveFieldConfig, Settings, SiteAccess, StoredFormData } from './types';
+import { MIN_MATCH_SCORE, createFormFingerprint, getFingerprintHash, scoreFingerprint } from './form-fingerprint';
+import { EDITABLE_SELECTOR, FIELD_SELECTOR, FormField, createFieldLocator, findField, isEditableField, mapFieldKeys } from './field-locator';
+import { detectVirtualForms, getCapturableFields, getFormFields, getVirtualFormRoot, isVirtualForm } from './virtual-form';
+import { createTypedInputValue, formatFieldValue, isTypedInput, normalizeTypedValue, toValueList, toValueString } from './field-values';
+import { captureRichText, isRichTextValue, restoreRichText } from './rich-text';
+import { SearchRoot, collectChildRoots, isElement, isSearchRootConnected } from './dom-traversal';
+import { FormMemorySuggest, showFormMemorySuggest } from './suggest-ui';
+import { FieldChange, showRestorePrompt } from './restore-prompt';
+import { showFormMemoryUndo } from './undo-ui';
+import { showEvictionNotice } from './eviction-notice';
+import { showFormMemoryToast } from './toast';
+import { FormMemoryFieldHistory, showFieldHistory } from './field-history';
+import { inferSemanticType } from './semantic-fields';
+import { FALLBACK_SENSITIVE_CONFIG, FieldDescription, SensitiveVerdict, classifySensitiveField } from './sensitive-fields';
+
+// Free-text fields: those whose typed values are remembered and suggested again, and that profiles fill
+const TEXT_FIELD_SELECTOR = 'input:not([type]), input[type="text"], input[type="email"], input[type="tel"], input[type="url"], input[type="search"], input[type="number"], textarea';
+
+// A field changed by a restore, with the value to put back when the restore is undone
+interface RestoredField {
+  field: HTMLElement;
+  name: string;
+  previous: FormFieldValue;
 }
 
 class FormMemory {
-  private forms: HTMLFormElement[] = [];
+  // Real <form> elements plus containers grouping fields that live outside any form
+  private forms: HTMLElement[] = [];
+  private boundForms = new WeakSet<HTMLElement>();
+  // Document, open shadow roots and same-origin frame documents the forms were found in
+  private searchRoots: SearchRoot[] = [];
+  // Forms found in each search root, so a DOM change only rescans the roots it happened in
+  private rootForms = new Map<SearchRoot, { forms: HTMLElement[]; virtualForms: HTMLElement[] }>();
+  private observer: MutationObserver | null = null;
+  // Roots changed since the last scan, which runs at most once per animation frame
+  private changedRoots = new Set<SearchRoot>();
+  private domChangeFrame: number | null = null;
+  private observedRoots = new WeakSet<SearchRoot>();
+  private watchedFrames = new WeakSet<HTMLIFrameElement>();
+  // Storage key each form on the page was matched to or saved under
+  private formKeys = new Map<HTMLElement, string>();
+  // Restores run one after another so two passes never claim the same saved form
+  private pendingLoad: Promise<void> = Promise.resolve();
+  // Restore policy for this site, loaded before the first restore
+  private restorePolicy: RestorePolicy | null = null;
   private hasUnsavedChanges = false;
   private debounceTimer: number | null = null;
-  private suggestUI: HTMLElement | null = null;
-  private hideTimer: number | null = null;
-
-  constructor() {
+  private suggestUI: FormMemorySuggest | null = null;
+  private snapshotPicker: HTMLElement | null = null;
+  private draftPrompt: HTMLElement | null = null;
+  // Draft autosave (opt-in from the options page)
+  private draftModeEnabled = false;
+  // Timing of the save prompt; replaced by the user's settings once they are loaded
+  private suggestDelayMs = 2000;
+  private suggestAutoHideMs = 10000;
+  // Rules deciding which fields are never stored
+  private sensitiveConfig: SensitiveFieldConfig = FALLBACK_SENSITIVE_CONFIG;
+  private dirtyForms = new Set<HTMLElement>();
+  private draftTimer: number | null = null;
+  // Element last right-clicked, which context menu commands act on
+  private contextMenuTarget: Element | null = null;
+  // Suggestions shown for the focused field, with the field and its form and key
+  private fieldHistory: { dropdown: FormMemoryFieldHistory; form: HTMLElement; field: FormField; name: string; values: string[] } | null = null;
+
+  // What site rules allow on this page
+  private siteAccess: SiteAccess;
+  // Key of this page's saved data as URL rules resolve it, and the URL it was resolved for
+  private pageKey: { url: string; key: string } | null = null;
+  // URL a key is being resolved for, so DOM changes during a navigation queue one lookup
+  private pendingPageUrl: string | null = null;
+
+  constructor(siteAccess: SiteAccess) {
+    this.siteAccess = siteAccess;
     this.init();
   }
 
   private init() {
     console.log('FormMemory: Initializing...');
     this.detectForms();
-    this.loadSavedData();
+    // Settings decide which fields are sensitive and whether drafts are kept, and URL rules decide
+    // which saved data belongs to the page, so restoring waits for both
+    this.queueLoad(async () => {
+      await Promise.all([this.refreshPageKey(), this.loadSettings()]);
+    }, 'load settings');
+    this.scheduleLoadSavedData();
     this.setupEventListeners();
+    this.setupMessageListener();
+    this.trackContextMenuTarget();
+    this.observeFormChanges();
+    // Single-page apps change the URL without reloading; hash routes may map to another key
+    window.addEventListener('hashchange', () => this.onLocationChange());
+    window.addEventListener('popstate', () => this.onLocationChange());
     console.log('FormMemory: Initialization complete');
   }
 
-  private detectForms() {
-    this.forms = Array.from(document.querySelectorAll('form'));
-    console.log(`Found ${this.forms.length} forms on page`);
+  // Scans the given roots, and any shadow roots or frames newly found inside them, for forms.
+  // Roots that did not change keep the forms found in them before.
+  private detectForms(changedRoots: SearchRoot[] = [document]) {
+    const pending = [...changedRoots];
+    while (pending.length > 0) {
+      const root = pending.shift()!;
+      if (!isSearchRootConnected(root)) {
+        continue;
+      }
+
+      const children = collectChildRoots(root, frame => this.watchFrame(frame));
+      this.rootForms.set(root, {
+        forms: Array.from(root.querySelectorAll('form')),
+        virtualForms: detectVirtualForms(root)
+      });
+      pending.push(...children.filter(child => !this.rootForms.has(child) && !pending.includes(child)));
+    }
+
+    // Shadow hosts and frames removed from the page take their roots with them
+    this.rootForms.forEach((_, root) => {
+      if (!isSearchRootConnected(root)) {
+        this.rootForms.delete(root);
+      }
+    });
+
+    this.searchRoots = Array.from(this.rootForms.keys());
+    const found = Array.from(this.rootForms.values());
+    const forms = found.flatMap(entry => entry.forms);
+    const virtualForms = found.flatMap(entry => entry.virtualForms);
+    this.forms = [...forms, ...virtualForms];
+    console.log(`Found ${forms.length} forms and ${virtualForms.length} virtual forms in ${this.searchRoots.length} document/shadow roots`);
+  }
+
+  // Same-origin frames fill in after they are inserted, so the root holding the frame is scanned
+  // again once it loads, which picks up the frame's new document
+  private watchFrame(frame: HTMLIFrameElement) {
+    if (this.watchedFrames.has(frame)) {
+      return;
+    }
+    this.watchedFrames.add(frame);
+    frame.addEventListener('load', () => this.queueDomChange(frame.getRootNode() as SearchRoot));
   }
 
   private setupEventListeners() {
-    console.log(`Setting up event listeners for ${this.forms.length} forms`);
-    this.forms.forEach((form, index) => {
-      const inputs = form.querySelectorAll('input:not([type="file"]), textarea, select');
-      console.log(`Form ${index}: Found ${inputs.length} input elements`);
-      
-      inputs.forEach(input => {
-        input.addEventListener('input', () => this.onInputChange());
-        input.addEventListener('change', () => this.onInputChange());
+    this.forms.forEach(form => {
+      if (this.boundForms.has(form)) {
+        return;
+      }
+      this.boundForms.add(form);
+      console.log(`Form ${this.forms.indexOf(form)}: Found ${getCapturableFields(form).length} input elements`);
+
+      // Listen on the form itself so fields added later are covered too
+      const onFieldEvent = (e: Event) => {
+        if (this.ownsField(form, e.target)) {
+          this.onInputChange(form);
+        }
+        if (e.type === 'input' && e.target === this.fieldHistory?.field) {
+          this.filterFieldHistory();
+        }
+        // Restores and page scripts fire untrusted events; only what the user typed is remembered
+        if (e.type === 'change' && e.isTrusted && this.ownsField(form, e.target)) {
+          this.recordFieldHistory(form, e.target as Element);
+        }
+      };
+      form.addEventListener('input', onFieldEvent);
+      form.addEventListener('change', onFieldEvent);
+
+      form.addEventListener('focusin', (e) => {
+        if (this.ownsField(form, e.target)) {
+          this.showFieldHistoryFor(form, e.target as Element);
+        }
+      });
+      form.addEventListener('focusout', (e) => {
+        if (e.target === this.fieldHistory?.field) {
+          this.closeFieldHistory();
+        }
+      });
+      form.addEventListener('keydown', (e) => {
+        if (!this.fieldHistory || e.target !== this.fieldHistory.field) {
+          return;
+        }
+        if (e.key === 'Escape') {
+          this.closeFieldHistory();
+          e.preventDefault();
+        } else if (this.fieldHistory.dropdown.handleKey(e)) {
+          e.preventDefault();
+        }
       });
 
-      form.addEventListener('submit', () => this.onFormSubmit(form, index));
+      if (isVirtualForm(form)) {
+        // Virtual forms are usually sent with fetch from a button click instead of a submit event
+        form.addEventListener('click', (e) => {
+          const button = (e.target as Element | null)?.closest('button, input[type="submit"], input[type="button"], [role="button"]');
+          if (button && getVirtualFormRoot(button) === form) {
+            this.onFormSubmit(form, this.forms.indexOf(form));
+          }
+        });
+      } else {
+        form.addEventListener('submit', () => this.onFormSubmit(form, this.forms.indexOf(form)));
+      }
     });
+  }
 
-    // Re-detect forms when DOM changes
-    const observer = new MutationObserver(() => {
-      const newForms = Array.from(document.querySelectorAll('form'));
-      if (newForms.length > this.forms.length) {
-        this.forms = newForms;
-        this.setupEventListeners();
+  // Requests sent to this tab from the extension's pages
+  private setupMessageListener() {
+    chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+      switch (message.action) {
+        case 'settingsChanged':
+          this.applySettings(message.settings);
+          this.refreshSiteAccess();
+          // URL rules are part of the settings too
+          this.onLocationChange(true);
+          console.log('Settings updated');
+          return false;
+
+        case 'sensitiveDryRun':
+          sendResponse({ forms: this.getSensitiveFieldReport(message.config) });
+          return false;
+
+        case 'showFormDiff':
+          this.showFormDiff(message.key)
+            .then(response => sendResponse(response))
+            .catch(error => {
+              console.error('Failed to show form diff:', error);
+              sendResponse({ success: false, error: error.message });
+            });
+          return true; // Keep message channel open for async response
+
+        case 'savePageForms':
+          this.savePageForms(message.snapshotName)
+            .then(response => sendResponse(response))
+            .catch(error => {
+              console.error('Failed to save page forms:', error);
+              sendResponse({ success: false, error: error.message });
+            });
+          return true;
+
+        case 'restoreSnapshot':
+          this.restoreSnapshot(message.key)
+            .then(response => sendResponse(response))
+            .catch(error => {
+              console.error('Failed to restore snapshot:', error);
+              sendResponse({ success: false, error: error.message });
+            });
+          return true;
+
+        case 'fillProfile':
+          this.fillProfile(message.profileId, message.fromMenu)
+            .then(response => sendResponse(response))
+            .catch(error => {
+              console.error('Failed to fill profile:', error);
+              sendResponse({ success: false, error: error.message });
+            });
+          return true;
+
+        case 'runCommand':
+          this.runCommand(message.command, message.fromMenu)
+            .then(response => sendResponse(response))
+            .catch(error => {
+              console.error(`Failed to run command ${message.command}:`, error);
+              showFormMemoryToast('操作に失敗しました');
+              sendResponse({ success: false, error: error.message });
+            });
+          return true;
+
+        default:
+          return false;
+      }
+    });
+  }
+
+  // The key of a field whose values may be remembered, or null for fields that are never
+  // remembered: other input types, sensitive fields, and fields of authentication forms
+  private getHistoryFieldName(form: HTMLElement, target: Element): string | null {
+    if (!target.matches(TEXT_FIELD_SELECTOR) || this.isAuthenticationForm(form)) {
+      return null;
+    }
+
+    const name = mapFieldKeys(form, getCapturableFields(form)).get(target as HTMLElement);
+    return name && !this.shouldSkipField(target as FormField, name) ? name : null;
+  }
+
+  private recordFieldHistory(form: HTMLElement, target: Element) {
+    if (!this.siteAccess.save) {
+      return;
+    }
+
+    const name = this.getHistoryFieldName(form, target);
+    const value = (target as FormField).value;
+    if (!name || value.trim() === '') {
+      return;
+    }
+
+    chrome.runtime.sendMessage({ action: 'recordFieldHistory', url: window.location.href, key: name, value }).catch(error => {
+      console.error('Failed to record field history:', error);
+    });
+  }
+
+  private async showFieldHistoryFor(form: HTMLElement, target: Element) {
+    this.closeFieldHistory();
+    const name = this.siteAccess.restore ? this.getHistoryFieldName(form, target) : null;
+    if (!name) {
+      return;
+    }
+
+    let values: string[];
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getFieldHistory', url: window.location.href, key: name });
+      values = response?.values ?? [];
+    } catch (error) {
+      console.error('Failed to load field history:', error);
+      return;
+    }
+
+    const field = target as FormField;
+    // Focus may have moved on while the history was loading
+    if (values.length === 0 || this.getFocusedElement() !== field) {
+      return;
+    }
+
+    const dropdown = showFieldHistory([]);
+    this.fieldHistory = { dropdown, form, field, name, values };
+    this.positionFieldHistory();
+    this.filterFieldHistory();
+
+    dropdown.addEventListener('history-select', (e) => {
+      const { value } = (e as CustomEvent<{ value: string }>).detail;
+      this.restoreField(form, field, name, value, new Set());
+      this.closeFieldHistory();
+      // Picking a value counts as entering it, so it moves to the top
+      chrome.runtime.sendMessage({ action: 'recordFieldHistory', url: window.location.href, key: name, value }).catch(error => {
+        console.error('Failed to record field history:', error);
+      });
+    });
+
+    dropdown.addEventListener('history-delete', async (e) => {
+      const { value } = (e as CustomEvent<{ value: string }>).detail;
+      try {
+        await chrome.runtime.sendMessage({ action: 'deleteFieldHistory', url: window.location.href, key: name, value });
+      } catch (error) {
+        console.error('Failed to delete field history:', error);
+        return;
+      }
+
+      if (this.fieldHistory?.dropdown !== dropdown) {
+        return;
+      }
+      this.fieldHistory.values = this.fieldHistory.values.filter(candidate => candidate !== value);
+      dropdown.removeValue(value);
+      if (dropdown.values.length === 0) {
+        this.closeFieldHistory();
       }
     });
 
-    observer.observe(document.body, {
-      childList: true,
-      subtree: true
+    // The list is placed once; scrolling would leave it behind, so it closes instead
+    window.addEventListener('scroll', this.closeFieldHistory, { capture: true, once: true });
+  }
+
+  // Shows the remembered values containing what the field holds now, except that value itself
+  private filterFieldHistory() {
+    if (!this.fieldHistory) {
+      return;
+    }
+
+    const { dropdown, field, values } = this.fieldHistory;
+    const current = field.value.toLowerCase();
+    const matching = values.filter(value => value !== field.value && value.toLowerCase().includes(current));
+    dropdown.values = matching;
+    dropdown.hidden = matching.length === 0;
+  }
+
+  // Fields in same-origin frames report positions relative to their frame
+  private positionFieldHistory() {
+    const { dropdown, field } = this.fieldHistory!;
+    const rect = field.getBoundingClientRect();
+    let { left, bottom } = rect;
+
+    let view: Window | null = field.ownerDocument.defaultView;
+    while (view && view !== window && view.frameElement) {
+      const frameRect = view.frameElement.getBoundingClientRect();
+      left += frameRect.left;
+      bottom += frameRect.top;
+      view = view.parent;
+    }
+
+    dropdown.positionBelow({ left, bottom, width: rect.width });
+  }
+
+  private closeFieldHistory = () => {
+    this.fieldHistory?.dropdown.remove();
+    this.fieldHistory = null;
+    window.removeEventListener('scroll', this.closeFieldHistory, { capture: true });
+  };
+
+  // The context menu reports only the page, so the right-clicked element is remembered here.
+  // Clicks inside shadow roots arrive retargeted to the host; the composed path has the real target.
+  private trackContextMenuTarget() {
+    document.addEventListener('contextmenu', (e) => {
+      const target = e.composedPath()[0];
+      this.contextMenuTarget = isElement(target) ? target : null;
+    }, true);
+  }
+
+  private ownsField(form: HTMLElement, target: EventTarget | null): boolean {
+    if (!isElement(target)) {
+      return false;
+    }
+
+    // Input events of rich-text editors may come from nodes inside the editable region
+    const field = target.matches('input:not([type="file"]), textarea, select') ? target : target.closest(EDITABLE_SELECTOR);
+    if (!field) {
+      return false;
+    }
+    return isVirtualForm(form) ? getVirtualFormRoot(field) === form : true;
+  }
+
+  private observeFormChanges() {
+    // Re-detect forms when DOM changes
+    this.observer = new MutationObserver(records => {
+      records.forEach(record => this.queueDomChange(record.target.getRootNode() as SearchRoot));
+    });
+    this.observeSearchRoots();
+  }
+
+  // Mutations inside shadow roots and frames are not reported to an observer on the top
+  // document, so every search root is observed on its own
+  private observeSearchRoots() {
+    this.searchRoots.forEach(root => {
+      if (this.observedRoots.has(root)) {
+        return;
+      }
+      this.observedRoots.add(root);
+
+      const target = root.nodeType === Node.DOCUMENT_NODE ? (root as Document).body : root;
+      this.observer?.observe(target, {
+        childList: true,
+        subtree: true
+      });
     });
   }
 
-  private onInputChange() {
+  // Busy pages mutate the DOM many times a frame; changes are collected and scanned together
+  private queueDomChange(root: SearchRoot) {
+    this.changedRoots.add(root);
+    if (this.domChangeFrame === null) {
+      this.domChangeFrame = requestAnimationFrame(() => this.onDomChange());
+    }
+  }
+
+  private onDomChange() {
+    this.domChangeFrame = null;
+    const changedRoots = Array.from(this.changedRoots);
+    this.changedRoots.clear();
+
+    // history.pushState cannot be observed directly, but route changes re-render the page
+    if (this.pageKey && this.pageKey.url !== window.location.href) {
+      this.onLocationChange();
+    }
+
+    const knownForms = this.forms;
+    this.detectForms(changedRoots);
+    this.observeSearchRoots();
+    const hasNewForms = this.forms.some(form => !knownForms.includes(form));
+
+    if (hasNewForms) {
+      this.setupEventListeners();
+      // Newly inserted forms may match saved data that nothing on the page claimed yet
+      this.scheduleLoadSavedData();
+    }
+  }
+
+  private onInputChange(form?: HTMLElement) {
     console.log('FormMemory: Input changed, setting unsaved flag');
     this.hasUnsavedChanges = true;
+
+    if (form) {
+      this.scheduleDraftSave(form);
+    }
+
+    if (!this.canPromptToSave()) {
+      return;
+    }
     
     // Don't show UI if it's already visible
     if (this.suggestUI) {
@@ -85,17 +500,25 @@ class FormMemory {
       
       // Double-check conditions before showing UI
       if (this.hasUnsavedChanges && !this.suggestUI) {
-        this.showSuggestUI();
+        // Offer to save the form that was edited last
+        if (form && this.forms.includes(form)) {
+          this.showSuggestUI(form, this.forms.indexOf(form));
+        } else {
+          this.showSuggestUI();
+        }
       } else {
         console.log('Conditions not met for showing suggest UI');
       }
-    }, 2000);
+    }, this.suggestDelayMs);
   }
 
-  private onFormSubmit(form: HTMLFormElement, formIndex: number) {
+  private onFormSubmit(form: HTMLElement, formIndex: number) {
     console.log('Form submit triggered, hasUnsavedChanges:', this.hasUnsavedChanges, 'suggestUI exists:', !!this.suggestUI);
+
+    // The form was sent, so its draft no longer needs recovering
+    this.discardDraft(form);
     
-    if (this.hasUnsavedChanges && !this.suggestUI) {
+    if (this.hasUnsavedChanges && !this.suggestUI && this.canPromptToSave()) {
       // Clear any pending debounce timer since we're showing UI immediately
       if (this.debounceTimer) {
         clearTimeout(this.debounceTimer);
@@ -107,276 +530,331 @@ class FormMemory {
     }
   }
 
-  private showSuggestUI(form?: HTMLFormElement, formIndex?: number) {
-    console.log('showSuggestUI called with formIndex:', formIndex, 'suggestUI exists:', !!this.suggestUI);
-    
-    // Prevent multiple UI instances - check both instance and DOM
-    if (this.suggestUI || document.getElementById('form-memory-suggest')) {
-      console.log('Suggest UI already exists, ignoring call');
+  private async loadSettings() {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getSettings' });
+      if (response?.settings) {
+        this.applySettings(response.settings);
+      }
+    } catch (error) {
+      console.error('Failed to load settings:', error);
       return;
     }
 
-    // Check if this is a login/authentication/signup form and skip if so
-    const targetForm = form || (formIndex !== undefined ? this.forms[formIndex] : this.forms[0]);
-    if (targetForm && this.isAuthenticationForm(targetForm)) {
-      console.log('Skipping suggest UI for authentication form');
+    if (this.draftModeEnabled) {
+      // Offer drafts only after saved data was restored, so a draft is what ends up in the form
+      this.queueLoad(() => this.recoverDrafts(), 'recover drafts');
+    }
+  }
+
+  // Also called when the settings change while the page is open
+  private applySettings(settings: Settings) {
+    this.draftModeEnabled = settings.draftMode;
+    this.suggestDelayMs = settings.suggestDelayMs;
+    this.suggestAutoHideMs = settings.suggestAutoHideMs;
+    this.sensitiveConfig = settings.sensitiveFields;
+    // Resolved again before the next restore, as the policy for this site may have changed
+    this.restorePolicy = null;
+  }
+
+  // Site rules are part of the settings, so they are checked again whenever those change
+  private async refreshSiteAccess() {
+    this.siteAccess = await getSiteAccess();
+    if (!this.canPromptToSave()) {
+      if (this.debounceTimer) {
+        clearTimeout(this.debounceTimer);
+        this.debounceTimer = null;
+      }
+      this.suggestUI?.close();
+    }
+  }
+
+  private canPromptToSave(): boolean {
+    return this.siteAccess.save && this.siteAccess.prompt;
+  }
+
+  private scheduleDraftSave(form: HTMLElement) {
+    if (!this.draftModeEnabled || !this.siteAccess.save || this.isAuthenticationForm(form)) {
       return;
     }
 
-    console.log('Creating suggest UI for form:', formIndex);
-    
-    this.suggestUI = document.createElement('div');
-    this.suggestUI.id = 'form-memory-suggest';
-    this.suggestUI.style.cssText = `
-      position: fixed !important;
-      top: 20px !important;
-      right: 20px !important;
-      z-index: 2147483647 !important;
-      font-family: system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif !important;
-    `;
-    
-    this.suggestUI.innerHTML = `
-      <div style="
-        background: white;
-        border: 1px solid #e1e5e9;
-        border-radius: 8px;
-        padding: 16px;
-        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
-        max-width: 300px;
-        font-size: 14px;
-        animation: slideIn 0.3s ease-out;
-      ">
-        <button style="
-          position: absolute;
-          top: 8px;
-          right: 8px;
-          background: none;
-          border: none;
-          font-size: 18px;
-          cursor: pointer;
-          color: #999;
-          padding: 0;
-          width: 20px;
-          height: 20px;
-          display: flex;
-          align-items: center;
-          justify-content: center;
-        " id="form-memory-close">×</button>
-        <div style="
-          margin-bottom: 12px;
-          font-weight: 500;
-          color: #333;
-          line-height: 1.4;
-        ">
-          このフォームを保存しますか？
-        </div>
-        <div style="display: flex; gap: 8px;">
-          <button id="form-memory-save" style="
-            background: #007bff;
-            color: white;
-            border: none;
-            padding: 8px 16px;
-            border-radius: 4px;
-            cursor: pointer;
-            font-size: 12px;
-            font-weight: 500;
-            flex: 1;
-            transition: all 0.2s ease;
-          ">保存する</button>
-          <button id="form-memory-dismiss" style="
-            background: #6c757d;
-            color: white;
-            border: none;
-            padding: 8px 16px;
-            border-radius: 4px;
-            cursor: pointer;
-            font-size: 12px;
-            font-weight: 500;
-            flex: 1;
-            transition: all 0.2s ease;
-          ">今回は保存しない</button>
-        </div>
-      </div>
-    `;
+    this.dirtyForms.add(form);
 
-    // Add animation keyframes and button styles
-    if (!document.getElementById('form-memory-styles')) {
-      const style = document.createElement('style');
-      style.id = 'form-memory-styles';
-      style.textContent = `
-        @keyframes slideIn {
-          from {
-            transform: translateX(100%);
-            opacity: 0;
-          }
-          to {
-            transform: translateX(0);
-            opacity: 1;
-          }
-        }
-        
-        #form-memory-save:disabled {
-          background: #6c757d !important;
-          cursor: not-allowed !important;
-          opacity: 0.7 !important;
-        }
-        
-        #form-memory-save:disabled:hover {
-          background: #6c757d !important;
-          transform: none !important;
-        }
-      `;
-      document.head.appendChild(style);
+    if (this.draftTimer) {
+      clearTimeout(this.draftTimer);
     }
 
-    document.body.appendChild(this.suggestUI);
+    this.draftTimer = window.setTimeout(() => {
+      this.draftTimer = null;
+      this.saveDrafts();
+    }, 2000);
+  }
 
-    // Get button references immediately after DOM insertion
-    const saveBtn = this.suggestUI.querySelector('#form-memory-save') as HTMLButtonElement;
-    const dismissBtn = this.suggestUI.querySelector('#form-memory-dismiss') as HTMLButtonElement;
-    const closeBtn = this.suggestUI.querySelector('#form-memory-close') as HTMLButtonElement;
+  private async saveDrafts() {
+    const forms = Array.from(this.dirtyForms);
+    this.dirtyForms.clear();
 
-    // Set up save button with proper error handling
-    if (saveBtn) {
-      saveBtn.addEventListener('click', async (e) => {
-        e.preventDefault();
-        e.stopPropagation();
-        
-        console.log('Save button clicked');
-        
-        // Prevent multiple clicks
-        if (saveBtn.disabled) {
-          console.log('Button already disabled, ignoring click');
-          return;
-        }
-        
-        // Disable button immediately
-        saveBtn.disabled = true;
-        saveBtn.textContent = '保存中...';
-        console.log('Button disabled, starting save process');
-        
-        try {
-          await this.saveFormData(form, formIndex);
-          console.log('Save completed successfully');
-          
-          // Show success state
-          saveBtn.textContent = '保存完了';
-          saveBtn.style.background = '#28a745';
-          console.log('Showing success state for 1 second');
-          
-          // Hide UI after 1 second
-          this.scheduleAutoHide(1000, 'success completion');
-          
-        } catch (error) {
-          console.error('Save failed:', error);
-          // Reset button on error
-          saveBtn.disabled = false;
-          saveBtn.textContent = '保存エラー';
-          saveBtn.style.background = '#dc3545';
-          
-          // Reset to normal after 2 seconds
-          setTimeout(() => {
-            if (saveBtn) {
-              saveBtn.textContent = '保存する';
-              saveBtn.style.background = '#007bff';
-            }
-          }, 2000);
-          
-          return; // Important: don't continue processing
+    for (const form of forms) {
+      const key = this.getFormKey(form);
+      const formData = this.extractFormData(form);
+
+      try {
+        if (Object.keys(formData).length === 0) {
+          await chrome.runtime.sendMessage({ action: 'deleteDraft', key });
+          continue;
         }
-      });
-    } else {
-      console.error('Save button not found!');
-    }
 
-    // Set up dismiss button
-    if (dismissBtn) {
-      dismissBtn.addEventListener('click', (e) => {
-        e.preventDefault();
-        e.stopPropagation();
-        console.log('Dismiss button clicked');
-        this.hideSuggestUI();
-      });
+        const draft: StoredFormData = {
+          url: window.location.href,
+          data: formData,
+          timestamp: Date.now(),
+          fingerprint: createFormFingerprint(form),
+          locators: this.collectFieldLocators(form, formData)
+        };
+
+        await chrome.runtime.sendMessage({ action: 'saveDraft', key, data: draft });
+        console.log(`Draft saved with key: ${key}`);
+      } catch (error) {
+        console.error('Failed to save draft:', error);
+      }
     }
+  }
 
-    // Set up close button
-    if (closeBtn) {
-      closeBtn.addEventListener('click', (e) => {
-        e.preventDefault();
-        e.stopPropagation();
-        console.log('Close button clicked');
-        this.hideSuggestUI();
-      });
+  private discardDraft(form: HTMLElement) {
+    this.dirtyForms.delete(form);
+
+    if (!this.draftModeEnabled || !chrome.runtime?.id) {
+      return;
     }
 
-    // Auto-hide after 10 seconds (only if not already hiding)
-    this.scheduleAutoHide(10000, 'auto-hide after 10 seconds');
+    const key = this.getFormKey(form);
+    chrome.runtime.sendMessage({ action: 'deleteDraft', key })
+      .then(() => console.log(`Draft cleared after submit: ${key}`))
+      .catch(error => console.error('Failed to delete draft:', error));
   }
 
-  private scheduleAutoHide(delay: number, reason: string) {
-    console.log(`Scheduling auto-hide in ${delay}ms for: ${reason}`);
-    
-    // Clear any existing hide timer
-    if (this.hideTimer) {
-      clearTimeout(this.hideTimer);
-      this.hideTimer = null;
-      console.log('Cleared existing hide timer');
+  private async recoverDrafts() {
+    if (!this.siteAccess.restore) {
+      return;
     }
-    
-    this.hideTimer = window.setTimeout(() => {
-      console.log(`Auto-hiding suggest UI: ${reason}`);
-      
-      // Clear timer reference before calling hideSuggestUI
-      this.hideTimer = null;
-      
-      // Only hide if UI still exists
-      if (this.suggestUI) {
-        this.hideSuggestUI();
+
+    let drafts: StoredFormData[];
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'getPageDrafts',
+        key: this.getPageKey()
+      });
+      drafts = response?.data || [];
+    } catch (error) {
+      console.error('Failed to load drafts:', error);
+      return;
+    }
+
+    for (const draft of drafts) {
+      if (draft.encryptedData) {
+        console.log(`Draft is encrypted and locked: ${draft.formKey}`);
+        continue;
+      }
+
+      const form = this.findSavedForm(draft);
+      if (!form) {
+        console.log(`No form on the page matches draft: ${draft.formKey}`);
+        continue;
+      }
+
+      const restore = await this.showDraftRecoveryPrompt(draft);
+      if (restore) {
+        this.restoreFormData(form, this.cleanSecurityFields(draft.data), draft.locators);
+        console.log(`Draft restored from key: ${draft.formKey}`);
       } else {
-        console.log('Suggest UI already removed, skipping hide');
+        await chrome.runtime.sendMessage({ action: 'deleteDraft', key: draft.formKey });
+        console.log(`Draft discarded: ${draft.formKey}`);
       }
-    }, delay);
+    }
   }
 
-  private hideSuggestUI() {
-    console.log('hideSuggestUI called, suggestUI exists:', !!this.suggestUI);
-    
-    // Clear any pending hide timers FIRST
-    if (this.hideTimer) {
-      clearTimeout(this.hideTimer);
-      this.hideTimer = null;
-      console.log('Cleared pending hide timer');
+  // Form on the page a draft or snapshot belongs to: the one under its key, else the best fingerprint match
+  private findSavedForm(saved: StoredFormData): HTMLElement | null {
+    const candidates = this.forms.filter(form => !this.isAuthenticationForm(form));
+
+    const exactMatch = candidates.find(form => this.getFormKey(form) === saved.formKey);
+    if (exactMatch || !saved.fingerprint) {
+      return exactMatch ?? null;
     }
-    
-    // Only proceed if UI actually exists
-    if (this.suggestUI) {
-      this.suggestUI.remove();
-      this.suggestUI = null;
-      console.log('Suggest UI removed successfully');
-      this.hasUnsavedChanges = false;
-    } else {
-      console.log('Suggest UI already null, nothing to remove');
+
+    let bestForm: HTMLElement | null = null;
+    let bestScore = MIN_MATCH_SCORE - 1;
+    for (const form of candidates) {
+      const score = scoreFingerprint(createFormFingerprint(form), saved.fingerprint);
+      if (score > bestScore) {
+        bestForm = form;
+        bestScore = score;
+      }
     }
+    return bestForm;
   }
 
-  private async saveFormData(targetForm?: HTMLFormElement, targetFormIndex?: number) {
-    const forms = targetForm ? [targetForm] : this.forms;
-    
-    for (let i = 0; i < forms.length; i++) {
-      const form = forms[i];
-      const formIndex = targetForm ? targetFormIndex! : i;
-      const formData = this.extractFormData(form);
-      
-      if (Object.keys(formData).length === 0) {
-        continue;
-      }
+  private showDraftRecoveryPrompt(draft: StoredFormData): Promise<boolean> {
+    return new Promise(resolve => {
+      this.draftPrompt?.remove();
+      this.draftPrompt = this.createFloatingPanel('form-memory-draft-prompt');
 
-      const key = this.generateStorageKey(formIndex);
-      const storedData: StoredFormData = {
-        url: window.location.href,
-        data: formData,
-        timestamp: Date.now()
-      };
+      this.draftPrompt.innerHTML = `
+        <div style="
+          background: white;
+          border: 1px solid #e1e5e9;
+          border-radius: 8px;
+          padding: 16px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+          max-width: 300px;
+          font-size: 14px;
+        ">
+          <div style="
+            margin-bottom: 4px;
+            font-weight: 500;
+            color: #333;
+            line-height: 1.4;
+          ">
+            送信されていない下書きがあります。復元しますか？
+          </div>
+          <div style="margin-bottom: 12px; font-size: 12px; color: #6c757d;">
+            ${new Date(draft.timestamp).toLocaleString('ja-JP')} · ${Object.keys(draft.data).length} 項目
+          </div>
+          <div style="display: flex; gap: 8px;">
+            <button id="form-memory-draft-restore" style="
+              background: #007bff;
+              color: white;
+              border: none;
+              padding: 8px 16px;
+              border-radius: 4px;
+              cursor: pointer;
+              font-size: 12px;
+              font-weight: 500;
+              flex: 1;
+            ">復元する</button>
+            <button id="form-memory-draft-discard" style="
+              background: #6c757d;
+              color: white;
+              border: none;
+              padding: 8px 16px;
+              border-radius: 4px;
+              cursor: pointer;
+              font-size: 12px;
+              font-weight: 500;
+              flex: 1;
+            ">破棄する</button>
+          </div>
+        </div>
+      `;
+
+      const finish = (restore: boolean) => {
+        this.draftPrompt?.remove();
+        this.draftPrompt = null;
+        resolve(restore);
+      };
+
+      this.draftPrompt.querySelector('#form-memory-draft-restore')?.addEventListener('click', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        finish(true);
+      });
+
+      this.draftPrompt.querySelector('#form-memory-draft-discard')?.addEventListener('click', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        finish(false);
+      });
+
+      document.body.appendChild(this.draftPrompt);
+    });
+  }
+
+  private showSuggestUI(form?: HTMLElement, formIndex?: number) {
+    console.log('showSuggestUI called with formIndex:', formIndex, 'suggestUI exists:', !!this.suggestUI);
+    
+    // Prevent multiple UI instances - check both instance and DOM
+    if (this.suggestUI || document.querySelector('form-memory-suggest')) {
+      console.log('Suggest UI already exists, ignoring call');
+      return;
+    }
+
+    // Check if this is a login/authentication/signup form and skip if so
+    const targetForm = form || (formIndex !== undefined ? this.forms[formIndex] : this.forms[0]);
+    if (targetForm && this.isAuthenticationForm(targetForm)) {
+      console.log('Skipping suggest UI for authentication form');
+      return;
+    }
+
+    console.log('Creating suggest UI for form:', formIndex);
+
+    const formLabel = form ? this.getFormLabel(form) : '';
+    const suggestUI = showFormMemorySuggest(formIndex ?? 0, formLabel, this.suggestAutoHideMs);
+    this.suggestUI = suggestUI;
+
+    suggestUI.addEventListener('save-form', async (e) => {
+      const { snapshotName } = (e as CustomEvent<{ snapshotName?: string }>).detail;
+      console.log('Save requested from suggest UI');
+      suggestUI.setSaveState('saving');
+
+      try {
+        await this.saveFormData(form, formIndex, snapshotName);
+        console.log('Save completed successfully');
+        suggestUI.setSaveState('saved');
+      } catch (error) {
+        console.error('Save failed:', error);
+        suggestUI.setSaveState('error');
+      }
+    });
+
+    suggestUI.addEventListener('suggest-closed', () => {
+      console.log('Suggest UI closed');
+      if (this.suggestUI === suggestUI) {
+        this.suggestUI = null;
+        this.hasUnsavedChanges = false;
+      }
+    });
+  }
+
+  // Short description of a form for the suggest UI: its accessible name, legend or nearest heading
+  private getFormLabel(form: HTMLElement): string {
+    const candidates = [
+      form.getAttribute('aria-label'),
+      form.querySelector('legend')?.textContent,
+      form.querySelector('h1, h2, h3, h4')?.textContent,
+      form.closest('section, article, [role="dialog"], dialog')?.querySelector('h1, h2, h3, h4')?.textContent,
+      form.getAttribute('name'),
+      form.id
+    ];
+
+    const label = candidates.find(text => text && text.trim() !== '');
+    return label ? label.replace(/\s+/g, ' ').trim().substring(0, 60) : '';
+  }
+
+  private async saveFormData(targetForm?: HTMLElement, targetFormIndex?: number, snapshotName?: string) {
+    if (!this.siteAccess.save) {
+      throw new Error('Saving is turned off on this page by a site rule');
+    }
+
+    const forms = targetForm ? [targetForm] : this.forms;
+    
+    for (let i = 0; i < forms.length; i++) {
+      const form = forms[i];
+      const formIndex = targetForm ? targetFormIndex! : i;
+      const formData = this.extractFormData(form);
+      
+      if (Object.keys(formData).length === 0) {
+        continue;
+      }
+
+      const key = this.getFormKey(form);
+      const storedData: StoredFormData = {
+        url: window.location.href,
+        data: formData,
+        timestamp: Date.now(),
+        snapshotName,
+        fingerprint: createFormFingerprint(form),
+        locators: this.collectFieldLocators(form, formData)
+      };
 
       try {
         // Check if extension context is still valid
@@ -384,12 +862,20 @@ class FormMemory {
           throw new Error('Extension context invalidated');
         }
         
-        await chrome.runtime.sendMessage({
+        const response = await chrome.runtime.sendMessage({
           action: 'saveFormData',
           key,
           data: storedData
         });
+        if (response?.error) {
+          throw new Error(response.error);
+        }
+        this.formKeys.set(form, key);
         console.log(`Form ${formIndex} data saved with key: ${key}`);
+
+        if (response?.evicted?.length > 0) {
+          this.showEvictionUI(response.evicted);
+        }
       } catch (error) {
         console.error('Failed to save form data:', error);
         throw error; // Re-throw to be caught by caller
@@ -397,14 +883,13 @@ class FormMemory {
     }
   }
 
-  private extractFormData(form: HTMLFormElement): FormData {
+  private extractFormData(form: HTMLElement): FormData {
     const data: FormData = {};
-    const processedRadioGroups = new Set<string>();
-    const inputs = form.querySelectorAll('input:not([type="file"]), textarea, select');
+    const processedGroups = new Set<string>();
 
-    inputs.forEach(input => {
-      const element = input as HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
-      const name = element.name || element.id || `field_${Math.random().toString(36).substring(2, 11)}`;
+    mapFieldKeys(form, getCapturableFields(form)).forEach((name, field) => {
+      // contenteditable regions have no type or value, so only their name and attributes are checked
+      const element = field as FormField;
 
       // Skip security-sensitive fields
       if (this.shouldSkipField(element, name)) {
@@ -412,22 +897,50 @@ class FormMemory {
         return;
       }
 
-      if (element.type === 'radio') {
+      if (isEditableField(field)) {
+        const richText = captureRichText(field);
+        if (richText.text !== '') {
+          data[name] = richText;
+        }
+        return;
+      }
+
+      if (element.type === 'radio' && element.name) {
         // Handle radio buttons as groups - only save the selected value
-        if (!processedRadioGroups.has(name)) {
-          processedRadioGroups.add(name);
+        if (!processedGroups.has(name)) {
+          processedGroups.add(name);
           // Use more specific selector to avoid hidden fields with same name
           const checkedRadio = form.querySelector(`input[type="radio"][name="${this.escapeSelector(name)}"]:checked`) as HTMLInputElement;
           if (checkedRadio) {
             data[name] = checkedRadio.value;
           }
         }
-      } else if (element.type === 'checkbox') {
-        // Handle checkboxes individually
+      } else if (element.type === 'checkbox' && this.getCheckboxGroup(form, element.name).length > 1) {
+        // Checkboxes sharing a name are saved together as the list of checked values
+        if (!processedGroups.has(name)) {
+          processedGroups.add(name);
+          const checkedValues = this.getCheckboxGroup(form, element.name)
+            .filter(checkbox => checkbox.checked)
+            .map(checkbox => checkbox.value);
+          if (checkedValues.length > 0) {
+            data[name] = checkedValues;
+          }
+        }
+      } else if (element.type === 'checkbox' || element.type === 'radio') {
+        // Handle checkboxes (and radios without a group name) individually
         if ((element as HTMLInputElement).checked) {
           // For checked checkboxes, save the value or true
           data[name] = element.value || true;
         }
+      } else if (element.tagName === 'SELECT' && (element as HTMLSelectElement).multiple) {
+        const selectedValues = Array.from((element as HTMLSelectElement).selectedOptions).map(option => option.value);
+        if (selectedValues.length > 0) {
+          data[name] = selectedValues;
+        }
+      } else if (isTypedInput(element)) {
+        if (element.value !== '') {
+          data[name] = createTypedInputValue(element as HTMLInputElement);
+        }
       } else if (element.value && element.value.trim() !== '') {
         // Handle other input types
         data[name] = element.value;
@@ -437,82 +950,66 @@ class FormMemory {
     return data;
   }
 
+  private getCheckboxGroup(form: HTMLElement, name: string): HTMLInputElement[] {
+    if (!name) {
+      return [];
+    }
+    return getFormFields(form).filter(field => field.type === 'checkbox' && field.name === name) as HTMLInputElement[];
+  }
+
+  private collectFieldLocators(form: HTMLElement, data: FormData): { [fieldName: string]: FieldLocator } {
+    const locators: { [fieldName: string]: FieldLocator } = {};
+
+    mapFieldKeys(form, getCapturableFields(form)).forEach((key, element) => {
+      if (data.hasOwnProperty(key) && !locators[key]) {
+        locators[key] = createFieldLocator(element, form);
+      }
+    });
+
+    return locators;
+  }
+
   private escapeSelector(selector: string): string {
     // Escape special characters in CSS selectors
     return selector.replace(/[!"#$%&'()*+,.\/:;<=>?@[\\\]^`{|}~]/g, '\\$&');
   }
 
   private shouldSkipField(element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, name: string): boolean {
-    // Security-related field patterns to exclude
-    const securityPatterns = [
-      // CSRF tokens
-      /csrf/i,
-      /xsrf/i,
-      /_token$/i,
-      /authenticity_token/i,
-      
-      // Session and security tokens
-      /session/i,
-      /nonce/i,
-      /security_token/i,
-      /verification_token/i,
-      
-      // API keys and secrets
-      /api_key/i,
-      /secret/i,
-      /private_key/i,
-      
-      // Passwords (additional patterns)
-      /password/i,
-      /passwd/i,
-      /pwd/i,
-      
-      // One-time codes
-      /otp/i,
-      /verification_code/i,
-      /auth_code/i,
-      /captcha/i,
-      
-      // Hidden fields that are likely security-related
-      /^__/,  // Fields starting with double underscore
-      /_id$/i, // ID fields that might be sensitive
-    ];
-
-    // Check field name against patterns
-    const nameMatches = securityPatterns.some(pattern => pattern.test(name));
-    if (nameMatches) {
-      return true;
-    }
+    return classifySensitiveField(this.describeField(element, name), this.sensitiveConfig).dropped;
+  }
 
-    // Check for password input types
-    if (element.type === 'password') {
-      return true;
-    }
+  private describeField(element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, name: string): FieldDescription {
+    // contenteditable regions have no type or value of their own
+    const editable = isEditableField(element);
+    return {
+      name,
+      type: editable ? 'contenteditable' : element.type,
+      autocomplete: element.getAttribute('autocomplete') || '',
+      value: editable ? element.textContent || '' : element.value || '',
+      element
+    };
+  }
 
-    // Check for hidden fields with security-related values
-    if (element.type === 'hidden') {
-      const value = element.value || '';
-      // Skip hidden fields with token-like values (long random strings)
-      if (value.length > 20 && /^[a-zA-Z0-9+/=_-]+$/.test(value)) {
-        return true;
-      }
-    }
+  // Verdict of the given sensitive-field rules for every field on the page, without saving anything
+  private getSensitiveFieldReport(config: SensitiveFieldConfig): { form: string; fields: (SensitiveVerdict & { field: string })[] }[] {
+    return this.forms.map((form, index) => {
+      const seenKeys = new Set<string>();
+      const fields: (SensitiveVerdict & { field: string })[] = [];
 
-    // Check data attributes that might indicate security fields
-    const securityDataAttrs = ['csrf', 'token', 'security', 'auth'];
-    const hasSecurityAttr = securityDataAttrs.some(attr => 
-      element.hasAttribute(`data-${attr}`) || 
-      element.getAttribute('data-purpose')?.includes(attr)
-    );
-    
-    if (hasSecurityAttr) {
-      return true;
-    }
+      mapFieldKeys(form, getCapturableFields(form)).forEach((key, element) => {
+        // Radio and checkbox groups are one field
+        if (seenKeys.has(key)) {
+          return;
+        }
+        seenKeys.add(key);
+        fields.push({ field: key, ...classifySensitiveField(this.describeField(element as FormField, key), config) });
+      });
 
-    return false;
+      return { form: this.getFormLabel(form) || `フォーム ${index + 1}`, fields };
+    }).filter(report => report.fields.length > 0);
   }
 
-  private isAuthenticationForm(form: HTMLFormElement): boolean {
+  private isAuthenticationForm(form: HTMLElement): boolean {
     // Check for password fields - strong indicator of authentication form
     const passwordFields = form.querySelectorAll('input[type="password"]');
     if (passwordFields.length > 0) {
@@ -690,66 +1187,314 @@ class FormMemory {
     return false;
   }
 
+  private scheduleLoadSavedData() {
+    this.queueLoad(() => this.loadSavedData(), 'restore saved data');
+  }
+
+  // Runs a step after the ones queued before it. A failing step is logged and the queue goes on,
+  // so one bad saved entry cannot stop every later restore on the page.
+  private queueLoad(step: () => Promise<void>, description: string) {
+    this.pendingLoad = this.pendingLoad
+      .then(step)
+      .catch(error => console.error(`Failed to ${description}:`, error));
+  }
+
   private async loadSavedData() {
-    for (let i = 0; i < this.forms.length; i++) {
-      const form = this.forms[i];
-      
-      // Skip authentication forms for data restoration too
+    if (!this.siteAccess.restore) {
+      console.log('Restoring is turned off on this page by a site rule');
+      return;
+    }
+
+    // Forms that already have a key were restored or saved before; authentication forms are never restored
+    const candidates = this.forms.filter(form => {
+      if (this.formKeys.has(form)) {
+        return false;
+      }
       if (this.isAuthenticationForm(form)) {
-        console.log(`Skipping data restoration for authentication form ${i}`);
+        console.log('Skipping data restoration for authentication form');
+        return false;
+      }
+      return true;
+    });
+
+    if (candidates.length === 0) {
+      return;
+    }
+
+    const policy = await this.getRestorePolicy();
+    if (policy === 'never') {
+      console.log('Restore policy for this site is "never", skipping restore');
+      return;
+    }
+
+    let pageData: { [key: string]: StoredFormData };
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'getPageFormData',
+        key: this.getPageKey()
+      });
+      pageData = response?.data || {};
+    } catch (error) {
+      console.error('Failed to load form data:', error);
+      return;
+    }
+
+    // Group snapshots by form, skipping forms already claimed by an element on the page
+    const claimedKeys = new Set(this.formKeys.values());
+    const savedForms = new Map<string, StoredFormData[]>();
+    for (const snapshot of Object.values(pageData)) {
+      const formKey = snapshot.formKey!;
+      if (claimedKeys.has(formKey)) {
         continue;
       }
+      savedForms.set(formKey, [...(savedForms.get(formKey) || []), snapshot]);
+    }
+
+    // Score every candidate form against every saved form, then assign best matches first
+    const matches: { form: HTMLElement; formKey: string; score: number }[] = [];
+    for (const form of candidates) {
+      const fingerprint = createFormFingerprint(form);
+      for (const [formKey, snapshots] of savedForms) {
+        const score = scoreFingerprint(fingerprint, this.getSavedFingerprint(snapshots));
+        if (score >= MIN_MATCH_SCORE) {
+          matches.push({ form, formKey, score });
+        }
+      }
+    }
+    matches.sort((a, b) => b.score - a.score);
+
+    const assignedForms = new Set<HTMLElement>();
+    for (const { form, formKey, score } of matches) {
+      if (assignedForms.has(form) || claimedKeys.has(formKey)) {
+        continue;
+      }
+      assignedForms.add(form);
+      claimedKeys.add(formKey);
+      this.formKeys.set(form, formKey);
+      console.log(`Matched form to saved key: ${formKey} (score ${score})`);
+
+      await this.restoreSnapshots(form, formKey, savedForms.get(formKey)!, policy);
+    }
+  }
+
+  private async getRestorePolicy(): Promise<RestorePolicy> {
+    if (this.restorePolicy) {
+      return this.restorePolicy;
+    }
+
+    // Returned from a local, as a settings change while waiting resets the cached policy
+    let policy: RestorePolicy;
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'getRestorePolicy',
+        url: window.location.href
+      });
+      policy = response?.policy ?? 'auto';
+    } catch (error) {
+      console.error('Failed to load restore policy:', error);
+      policy = 'auto';
+    }
+
+    this.restorePolicy = policy;
+    return policy;
+  }
+
+  private getSavedFingerprint(snapshots: StoredFormData[]): FormFingerprint {
+    const latest = snapshots.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+    if (latest.fingerprint) {
+      return latest.fingerprint;
+    }
+
+    // Entries saved before fingerprints existed only know the names of the fields they hold
+    return {
+      id: '',
+      name: '',
+      action: '',
+      fields: Object.keys(latest.data).sort(),
+      domPath: ''
+    };
+  }
+
+  // The policy is the one loadSavedData resolved, so a settings change mid-restore cannot turn
+  // an 'ask' into an automatic restore
+  private async restoreSnapshots(form: HTMLElement, key: string, snapshots: StoredFormData[], policy: RestorePolicy) {
+    // Encrypted snapshots come back without values until they are unlocked in the options page
+    snapshots = snapshots.filter(snapshot => !snapshot.encryptedData);
+    if (snapshots.length === 0) {
+      console.log(`Saved data is encrypted and locked for key: ${key}`);
+      return;
+    }
+
+    try {
+      // A single snapshot restores as before; several let the user choose which one to use
+      const snapshot = snapshots.length === 1
+        ? snapshots[0]
+        : await this.showSnapshotPicker(snapshots);
+
+      if (!snapshot) {
+        console.log(`No snapshot selected for key: ${key}`);
+        return;
+      }
+
+      // Clean existing data before restoring
+      const cleanedData = this.cleanSecurityFields(snapshot.data);
       
-      const key = this.generateStorageKey(i);
-      
-      try {
-        const response = await chrome.runtime.sendMessage({
-          action: 'getFormData',
-          key
+      // If data was cleaned, save the cleaned version
+      if (Object.keys(cleanedData).length !== Object.keys(snapshot.data).length) {
+        console.log(`Cleaning security fields from saved data for key: ${key}`);
+        const cleanedStoredData = {
+          ...snapshot,
+          data: cleanedData
+        };
+        
+        await chrome.runtime.sendMessage({
+          action: 'saveFormData',
+          key,
+          data: cleanedStoredData
         });
-
-        if (response && response.data) {
-          // Clean existing data before restoring
-          const cleanedData = this.cleanSecurityFields(response.data.data);
-          
-          // If data was cleaned, save the cleaned version
-          if (Object.keys(cleanedData).length !== Object.keys(response.data.data).length) {
-            console.log(`Cleaning security fields from saved data for key: ${key}`);
-            const cleanedStoredData = {
-              ...response.data,
-              data: cleanedData
-            };
-            
-            await chrome.runtime.sendMessage({
-              action: 'saveFormData',
-              key,
-              data: cleanedStoredData
-            });
-          }
-          
-          this.restoreFormData(form, cleanedData);
-          console.log(`Form ${i} data restored from key: ${key}`);
+      }
+      
+      let restoreData = cleanedData;
+      if (policy === 'ask') {
+        const changes = this.getFormDiff(form, cleanedData, snapshot.locators);
+        if (changes.length === 0) {
+          console.log(`Form already matches saved data for key: ${key}`);
+          return;
         }
-      } catch (error) {
-        console.error('Failed to load form data:', error);
+        const fields = await showRestorePrompt(this.getFormLabel(form), changes);
+        if (!fields) {
+          console.log(`Restore declined for key: ${key}`);
+          return;
+        }
+        restoreData = this.selectRestoreData(cleanedData, fields);
       }
+
+      this.restoreFormData(form, restoreData, snapshot.locators);
+      this.markFormUsed(key, snapshot.snapshotName);
+      console.log(`Form data restored from key: ${key}, snapshot: ${snapshot.snapshotName || '(default)'}`);
+    } catch (error) {
+      console.error('Failed to load form data:', error);
     }
   }
 
-  private cleanSecurityFields(data: FormData): { [fieldName: string]: string | boolean } {
-    const cleanedData: { [fieldName: string]: string | boolean } = {};
+  private showSnapshotPicker(snapshots: StoredFormData[]): Promise<StoredFormData | null> {
+    // Newest snapshot first
+    const sorted = [...snapshots].sort((a, b) => b.timestamp - a.timestamp);
+
+    return new Promise(resolve => {
+      this.snapshotPicker?.remove();
+
+      this.snapshotPicker = this.createFloatingPanel('form-memory-snapshot-picker');
+
+      const buttonsHtml = sorted.map((snapshot, index) => `
+        <button data-snapshot-index="${index}" style="
+          display: block;
+          width: 100%;
+          text-align: left;
+          background: #f8f9fa;
+          border: 1px solid #e1e5e9;
+          border-radius: 4px;
+          padding: 8px 12px;
+          margin-bottom: 6px;
+          cursor: pointer;
+          font-size: 12px;
+          color: #333;
+        ">
+          <span style="font-weight: 500;">${this.escapeHtml(snapshot.snapshotName || 'デフォルト')}</span>
+          <span style="color: #6c757d; margin-left: 6px;">${new Date(snapshot.timestamp).toLocaleString('ja-JP')}</span>
+        </button>
+      `).join('');
+
+      this.snapshotPicker.innerHTML = `
+        <div style="
+          background: white;
+          border: 1px solid #e1e5e9;
+          border-radius: 8px;
+          padding: 16px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+          max-width: 300px;
+          font-size: 14px;
+        ">
+          <div style="
+            margin-bottom: 12px;
+            font-weight: 500;
+            color: #333;
+            line-height: 1.4;
+          ">
+            復元するデータを選択してください
+          </div>
+          ${buttonsHtml}
+          <button id="form-memory-snapshot-skip" style="
+            background: #6c757d;
+            color: white;
+            border: none;
+            padding: 8px 16px;
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 12px;
+            font-weight: 500;
+            width: 100%;
+          ">復元しない</button>
+        </div>
+      `;
+
+      const finish = (snapshot: StoredFormData | null) => {
+        this.snapshotPicker?.remove();
+        this.snapshotPicker = null;
+        resolve(snapshot);
+      };
+
+      this.snapshotPicker.querySelectorAll('[data-snapshot-index]').forEach(button => {
+        button.addEventListener('click', (e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          const index = Number((button as HTMLElement).dataset.snapshotIndex);
+          finish(sorted[index] ?? null);
+        });
+      });
+
+      this.snapshotPicker.querySelector('#form-memory-snapshot-skip')?.addEventListener('click', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        finish(null);
+      });
+
+      document.body.appendChild(this.snapshotPicker);
+    });
+  }
+
+  private createFloatingPanel(id: string): HTMLElement {
+    const panel = document.createElement('div');
+    panel.id = id;
+    panel.style.cssText = `
+      position: fixed !important;
+      top: 20px !important;
+      right: 20px !important;
+      z-index: 2147483647 !important;
+      font-family: system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif !important;
+    `;
+    return panel;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
+  private cleanSecurityFields(data: FormData): FormData {
+    const cleanedData: FormData = {};
     
     for (const [fieldName, value] of Object.entries(data)) {
-      // Create a mock element to test against shouldSkipField
-      const mockElement = {
+      // Stored data only knows each field's name and value
+      const verdict = classifySensitiveField({
         name: fieldName,
         type: 'text',
-        value: typeof value === 'string' ? value : '',
-        hasAttribute: () => false,
-        getAttribute: () => null
-      } as any;
+        autocomplete: '',
+        value: typeof value === 'boolean' ? '' : formatFieldValue(value)
+      }, this.sensitiveConfig);
       
-      if (!this.shouldSkipField(mockElement, fieldName)) {
+      if (!verdict.dropped) {
         cleanedData[fieldName] = value;
       } else {
         console.log(`Removed security field from stored data: ${fieldName}`);
@@ -759,72 +1504,744 @@ class FormMemory {
     return cleanedData;
   }
 
-  private restoreFormData(form: HTMLFormElement, data: { [fieldName: string]: string | boolean }) {
-    const inputs = form.querySelectorAll('input:not([type="file"]), textarea, select');
-    const processedRadioGroups = new Set<string>();
+  // Restores the saved data and offers to undo the fields it changed. Returns how many fields changed.
+  private restoreFormData(form: HTMLElement, data: FormData, locators: { [fieldName: string]: FieldLocator } = {}): number {
+    const processedGroups = new Set<string>();
+    const restoredFields: RestoredField[] = [];
 
-    inputs.forEach(input => {
-      const element = input as HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
-      const name = element.name || element.id;
-      
-      // Skip security-sensitive fields during restoration too
-      if (name && data.hasOwnProperty(name) && !this.shouldSkipField(element, name)) {
-        const value = data[name];
-        
-        if (element.type === 'radio') {
-          // Handle radio buttons as groups to avoid setting multiple radios
-          if (!processedRadioGroups.has(name)) {
-            processedRadioGroups.add(name);
-            
-            // First, uncheck all radio buttons in this group
-            const allRadios = form.querySelectorAll(`input[type="radio"][name="${this.escapeSelector(name)}"]`);
-            allRadios.forEach(radio => {
-              (radio as HTMLInputElement).checked = false;
-            });
-            
-            // Then check the radio button with matching value
-            if (typeof value === 'string') {
-              const targetRadio = form.querySelector(`input[type="radio"][name="${this.escapeSelector(name)}"][value="${this.escapeSelector(value)}"]`) as HTMLInputElement;
-              if (targetRadio) {
-                targetRadio.checked = true;
-                // Trigger change event to notify other scripts
-                targetRadio.dispatchEvent(new Event('change', { bubbles: true }));
-              }
+    this.resolveSavedFields(form, data, locators).forEach((name, field) => {
+      const previous = processedGroups.has(name) ? null : this.captureFieldValue(form, field, name);
+      this.restoreField(form, field, name, data[name], processedGroups);
+
+      if (previous !== null && !this.shouldSkipField(field as FormField, name)) {
+        const restored = this.captureFieldValue(form, field, name);
+        if (formatFieldValue(previous) !== formatFieldValue(restored)) {
+          restoredFields.push({ field, name, previous });
+        }
+      }
+    });
+
+    if (restoredFields.length > 0) {
+      this.showUndoUI(form, restoredFields);
+    }
+    return restoredFields.length;
+  }
+
+  // Writes one saved value into its field and fires the events page scripts listen for.
+  // Radio and checkbox groups are written once, through the first element of the group.
+  private restoreField(form: HTMLElement, field: HTMLElement, name: string, value: FormFieldValue, processedGroups: Set<string>) {
+    const element = field as FormField;
+
+    // Skip security-sensitive fields during restoration too
+    if (!this.shouldSkipField(element, name)) {
+      if (isEditableField(field)) {
+        if (isRichTextValue(value)) {
+          restoreRichText(field, value);
+        } else if (typeof value === 'string') {
+          restoreRichText(field, { kind: 'richtext', html: '', text: value });
+        }
+      } else if (element.type === 'radio' && element.name) {
+        // Handle radio buttons as groups to avoid setting multiple radios
+        if (!processedGroups.has(name)) {
+          processedGroups.add(name);
+          
+          // First, uncheck all radio buttons in this group
+          const allRadios = form.querySelectorAll(`input[type="radio"][name="${this.escapeSelector(name)}"]`);
+          allRadios.forEach(radio => {
+            (radio as HTMLInputElement).checked = false;
+          });
+          
+          // Then check the radio button with matching value
+          if (typeof value === 'string') {
+            const targetRadio = form.querySelector(`input[type="radio"][name="${this.escapeSelector(name)}"][value="${this.escapeSelector(value)}"]`) as HTMLInputElement;
+            if (targetRadio) {
+              targetRadio.checked = true;
+              // Trigger change event to notify other scripts
+              targetRadio.dispatchEvent(new Event('change', { bubbles: true }));
             }
           }
-        } else if (element.type === 'checkbox') {
-          // For checkboxes, handle both boolean and value-based storage
-          const inputElement = element as HTMLInputElement;
-          if (typeof value === 'boolean') {
-            inputElement.checked = value;
-          } else if (typeof value === 'string') {
-            // If we stored the checkbox value, check if it matches
-            inputElement.checked = (inputElement.value === value) || (value === 'true');
-          }
-          
-          // Trigger change event
-          inputElement.dispatchEvent(new Event('change', { bubbles: true }));
+        }
+      } else if (element.type === 'checkbox' && this.getCheckboxGroup(form, element.name).length > 1) {
+        // Check exactly the saved values of the group (a single string from older saves is a one-item list)
+        if (!processedGroups.has(name) && typeof value !== 'boolean') {
+          processedGroups.add(name);
+          const checkedValues = toValueList(value);
+          this.getCheckboxGroup(form, element.name).forEach(checkbox => {
+            checkbox.checked = checkedValues.includes(checkbox.value);
+            checkbox.dispatchEvent(new Event('change', { bubbles: true }));
+          });
+        }
+      } else if (element.type === 'checkbox' || element.type === 'radio') {
+        // For checkboxes, handle both boolean and value-based storage
+        const inputElement = element as HTMLInputElement;
+        if (typeof value === 'boolean') {
+          inputElement.checked = value;
         } else if (typeof value === 'string') {
-          // Handle other input types
-          element.value = value;
+          // If we stored the checkbox value, check if it matches
+          inputElement.checked = (inputElement.value === value) || (value === 'true');
+        } else if (Array.isArray(value)) {
+          inputElement.checked = value.includes(inputElement.value);
+        }
+        
+        // Trigger change event
+        inputElement.dispatchEvent(new Event('change', { bubbles: true }));
+      } else if (element.tagName === 'SELECT' && (element as HTMLSelectElement).multiple) {
+        if (typeof value !== 'boolean') {
+          const selectedValues = toValueList(value);
+          Array.from((element as HTMLSelectElement).options).forEach(option => {
+            option.selected = selectedValues.includes(option.value);
+          });
+          element.dispatchEvent(new Event('change', { bubbles: true }));
+        }
+      } else if (isTypedInput(element)) {
+        const raw = typeof value === 'boolean' ? null : toValueString(value);
+        // An empty value only comes from undoing a restore and clears the input
+        const typedValue = raw === null ? null : raw === '' ? '' : normalizeTypedValue(element as HTMLInputElement, raw);
+        if (typedValue === null) {
+          console.log(`Saved value does not fit ${element.type} input: ${name}`);
+        } else {
+          element.value = typedValue;
+          // Date pickers and sliders commonly react to change rather than input
+          element.dispatchEvent(new Event('input', { bubbles: true }));
+          element.dispatchEvent(new Event('change', { bubbles: true }));
+        }
+      } else if (typeof value !== 'boolean') {
+        // Handle other input types
+        const stringValue = toValueString(value);
+        if (stringValue !== null) {
+          element.value = stringValue;
           // Trigger input event
           element.dispatchEvent(new Event('input', { bubbles: true }));
         }
       }
+    }
+  }
+
+  // Current value of a field in the shape it is saved in, including empty values, so undoing a
+  // restore can clear fields the restore filled in
+  private captureFieldValue(form: HTMLElement, field: HTMLElement, name: string): FormFieldValue {
+    const element = field as FormField;
+
+    if (isEditableField(field)) {
+      return captureRichText(field);
+    }
+    if (element.type === 'radio' && element.name) {
+      const checkedRadio = form.querySelector(`input[type="radio"][name="${this.escapeSelector(name)}"]:checked`) as HTMLInputElement | null;
+      return checkedRadio?.value ?? '';
+    }
+    if (element.type === 'checkbox' && this.getCheckboxGroup(form, element.name).length > 1) {
+      return this.getCheckboxGroup(form, element.name)
+        .filter(checkbox => checkbox.checked)
+        .map(checkbox => checkbox.value);
+    }
+    if (element.type === 'checkbox' || element.type === 'radio') {
+      return (element as HTMLInputElement).checked;
+    }
+    if (element.tagName === 'SELECT' && (element as HTMLSelectElement).multiple) {
+      return Array.from((element as HTMLSelectElement).selectedOptions).map(option => option.value);
+    }
+    if (isTypedInput(element)) {
+      return createTypedInputValue(element as HTMLInputElement);
+    }
+    return element.value;
+  }
+
+  // Lets the background rank the entry as recently used when storage has to be freed
+  private markFormUsed(formKey: string, snapshotName?: string) {
+    chrome.runtime.sendMessage({ action: 'markFormUsed', key: formKey, snapshotName }).catch(error => {
+      console.error('Failed to mark form data as used:', error);
+    });
+  }
+
+  private showEvictionUI(evicted: EvictedEntry[]) {
+    const notice = showEvictionNotice(evicted);
+
+    notice.addEventListener('restore-evicted', async (e) => {
+      const { keys } = (e as CustomEvent<{ keys: string[] }>).detail;
+      notice.setRestoreState('restoring');
+      try {
+        await chrome.runtime.sendMessage({ action: 'restoreEvicted', keys });
+        notice.setRestoreState('restored');
+      } catch (error) {
+        console.error('Failed to restore evicted entries:', error);
+        notice.setRestoreState('error');
+      }
+    });
+  }
+
+  private showUndoUI(form: HTMLElement, restoredFields: RestoredField[]) {
+    const undoUI = showFormMemoryUndo(
+      this.getFormLabel(form),
+      restoredFields.map(({ name, previous }) => ({ field: name, previous: this.truncate(formatFieldValue(previous)) }))
+    );
+
+    const undoField = (restored: RestoredField) => {
+      // The page may have replaced the field since the restore
+      if (restored.field.isConnected) {
+        this.restoreField(form, restored.field, restored.name, restored.previous, new Set());
+      }
+      restoredFields.splice(restoredFields.indexOf(restored), 1);
+      undoUI.removeField(restored.name);
+      console.log(`Restore undone for field: ${restored.name}`);
+    };
+
+    undoUI.addEventListener('undo-field', (e) => {
+      const { field } = (e as CustomEvent<{ field: string }>).detail;
+      const restored = restoredFields.find(item => item.name === field);
+      if (restored) {
+        undoField(restored);
+      }
+    });
+
+    undoUI.addEventListener('undo-all', () => {
+      [...restoredFields].forEach(undoField);
+    });
+  }
+
+  // Field-level differences between the saved data and the live form. Fields filled in on the
+  // page that the saved data has no value for are listed as removed.
+  private getFormDiff(form: HTMLElement, data: FormData, locators: { [fieldName: string]: FieldLocator } = {}): FieldChange[] {
+    const currentData = this.extractFormData(form);
+    const currentKeys = mapFieldKeys(form, getCapturableFields(form));
+    const changes: FieldChange[] = [];
+    const seenKeys = new Set<string>();
+    const pairedKeys = new Set<string>();
+
+    this.resolveSavedFields(form, data, locators).forEach((key, element) => {
+      const currentKey = currentKeys.get(element)!;
+      pairedKeys.add(currentKey);
+
+      // Radio and checkbox groups resolve to several elements under one key
+      if (seenKeys.has(key) || this.shouldSkipField(element as FormField, key)) {
+        return;
+      }
+      seenKeys.add(key);
+
+      const current = formatFieldValue(currentData[currentKey]);
+      const saved = formatFieldValue(data[key]);
+      if (current !== saved) {
+        changes.push({
+          field: key,
+          status: current ? 'changed' : 'added',
+          current: this.truncate(current),
+          saved: this.truncate(saved)
+        });
+      }
+    });
+
+    Object.entries(currentData).forEach(([key, value]) => {
+      if (!pairedKeys.has(key)) {
+        changes.push({ field: key, status: 'removed', current: this.truncate(formatFieldValue(value)), saved: '' });
+      }
     });
+
+    return changes;
   }
 
-  private generateStorageKey(formIndex: number): string {
+  // Saved values of the fields picked for a partial restore. Picked fields the saved data has no
+  // value for are restored as empty, which clears them.
+  private selectRestoreData(data: FormData, fields: string[]): FormData {
+    const selected: FormData = {};
+    fields.forEach(field => {
+      selected[field] = data.hasOwnProperty(field) ? data[field] : '';
+    });
+    return selected;
+  }
+
+  // Saves every form on the page that has input. Requested from the toolbar popup.
+  private async savePageForms(snapshotName?: string): Promise<{ success: boolean; saved?: number; error?: string }> {
+    if (!this.siteAccess.save) {
+      return { success: false, error: 'blocked' };
+    }
+
+    const forms = this.forms.filter(form =>
+      !this.isAuthenticationForm(form) && Object.keys(this.extractFormData(form)).length > 0
+    );
+    if (forms.length === 0) {
+      return { success: false, error: 'no-data' };
+    }
+
+    for (const form of forms) {
+      await this.saveFormData(form, this.forms.indexOf(form), snapshotName);
+    }
+    this.hasUnsavedChanges = false;
+    return { success: true, saved: forms.length };
+  }
+
+  // Restores one stored snapshot into its form, whatever the restore policy. Requested from the
+  // toolbar popup, where choosing the snapshot is the confirmation.
+  private async restoreSnapshot(key: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.siteAccess.restore) {
+      return { success: false, error: 'blocked' };
+    }
+
+    const response = await chrome.runtime.sendMessage({ action: 'getFormData', key });
+    const snapshot: StoredFormData | null = response?.data ?? null;
+    if (!snapshot) {
+      return { success: false, error: 'not-found' };
+    }
+    if (snapshot.encryptedData) {
+      return { success: false, error: 'locked' };
+    }
+
+    const formKey = snapshot.formKey ?? key;
+    const form = this.findSavedForm({ ...snapshot, formKey });
+    if (!form) {
+      return { success: false, error: 'no-form' };
+    }
+
+    this.formKeys.set(form, formKey);
+    this.restoreFormData(form, this.cleanSecurityFields(snapshot.data), snapshot.locators);
+    this.markFormUsed(formKey, snapshot.snapshotName);
+    console.log(`Snapshot restored from popup: ${key}`);
+    return { success: true };
+  }
+
+  // Shows the diff between a stored snapshot and the matching form on the page and restores the
+  // fields the user picks. Requested from the options page.
+  private async showFormDiff(key: string): Promise<{ success: boolean; error?: string }> {
+    if (document.querySelector('form-memory-restore-prompt')) {
+      return { success: false, error: 'busy' };
+    }
+
+    const response = await chrome.runtime.sendMessage({ action: 'getFormData', key });
+    const snapshot: StoredFormData | null = response?.data ?? null;
+    if (!snapshot) {
+      return { success: false, error: 'not-found' };
+    }
+    if (snapshot.encryptedData) {
+      return { success: false, error: 'locked' };
+    }
+
+    const form = this.findSavedForm({ ...snapshot, formKey: snapshot.formKey ?? key });
+    if (!form) {
+      return { success: false, error: 'no-form' };
+    }
+
+    const data = this.cleanSecurityFields(snapshot.data);
+    const changes = this.getFormDiff(form, data, snapshot.locators);
+    if (changes.length === 0) {
+      return { success: false, error: 'no-changes' };
+    }
+
+    // The options page waits only for the diff to be shown, not for the user's choice
+    showRestorePrompt(this.getFormLabel(form), changes).then(fields => {
+      if (fields) {
+        this.restoreFormData(form, this.selectRestoreData(data, fields), snapshot.locators);
+        this.markFormUsed(snapshot.formKey ?? key, snapshot.snapshotName);
+        console.log(`Partially restored ${fields.length} fields from key: ${key}`);
+      }
+    });
+
+    return { success: true };
+  }
+
+  // Runs a keyboard shortcut or context menu command on the form or field it targets: the
+  // right-clicked element for the context menu, the focused one for shortcuts
+  private async runCommand(command: FormCommand, fromMenu = false): Promise<{ success: boolean; error?: string }> {
+    const target = fromMenu ? this.contextMenuTarget : this.getFocusedElement();
+    let error: string | undefined;
+
+    switch (command) {
+      case 'save-form':
+        error = await this.saveFormCommand(this.getCommandForm(target));
+        break;
+
+      case 'restore-form':
+        error = await this.restoreFormCommand(this.getCommandForm(target));
+        break;
+
+      case 'fill-field':
+        error = await this.fillFieldCommand(target);
+        break;
+
+      case 'never-save-site': {
+        const response = await chrome.runtime.sendMessage({ action: 'neverSaveSite', url: window.location.href });
+        if (!response?.success) {
+          throw new Error(response?.error ?? 'Failed to add the site rule');
+        }
+        showFormMemoryToast('このサイトでは今後フォームを保存しません');
+        break;
+      }
+
+      default:
+        return { success: false, error: 'unknown-command' };
+    }
+
+    return error ? { success: false, error } : { success: true };
+  }
+
+  private async saveFormCommand(form: HTMLElement | null): Promise<string | undefined> {
+    if (!this.siteAccess.save) {
+      showFormMemoryToast('サイトごとのルールにより、このページでは保存できません');
+      return 'blocked';
+    }
+    if (!form || this.isAuthenticationForm(form)) {
+      showFormMemoryToast('保存できるフォームが見つかりません');
+      return 'no-form';
+    }
+    if (Object.keys(this.extractFormData(form)).length === 0) {
+      showFormMemoryToast('保存できる入力内容がありません');
+      return 'no-data';
+    }
+
+    await this.saveFormData(form, this.forms.indexOf(form));
+    this.hasUnsavedChanges = false;
+    this.suggestUI?.close();
+    showFormMemoryToast('フォームを保存しました');
+    return undefined;
+  }
+
+  private async restoreFormCommand(form: HTMLElement | null): Promise<string | undefined> {
+    if (!this.siteAccess.restore) {
+      showFormMemoryToast('サイトごとのルールにより、このページでは復元できません');
+      return 'blocked';
+    }
+    const saved = form && !this.isAuthenticationForm(form) ? await this.findSnapshotsForForm(form) : null;
+    if (!form || !saved) {
+      showFormMemoryToast('このフォームの保存データはありません');
+      return 'not-found';
+    }
+
+    const snapshots = saved.snapshots.filter(snapshot => !snapshot.encryptedData);
+    if (snapshots.length === 0) {
+      showFormMemoryToast('保存データは暗号化されています。オプション画面でロックを解除してください');
+      return 'locked';
+    }
+
+    // Asking for the command is the confirmation, so only the snapshot is chosen here
+    const snapshot = snapshots.length === 1 ? snapshots[0] : await this.showSnapshotPicker(snapshots);
+    if (!snapshot) {
+      return 'cancelled';
+    }
+
+    this.formKeys.set(form, saved.formKey);
+    const restored = this.restoreFormData(form, this.cleanSecurityFields(snapshot.data), snapshot.locators);
+    this.markFormUsed(saved.formKey, snapshot.snapshotName);
+    if (restored === 0) {
+      showFormMemoryToast('フォームはすでに保存データと同じ内容です');
+    }
+    return undefined;
+  }
+
+  // Fills a field with the values remembered or saved for it, newest first. Running the command
+  // again while the field still holds one of them moves on to the next older one.
+  private async fillFieldCommand(target: Element | null): Promise<string | undefined> {
+    if (!this.siteAccess.restore) {
+      showFormMemoryToast('サイトごとのルールにより、このページでは復元できません');
+      return 'blocked';
+    }
+    const field = target?.closest(`${FIELD_SELECTOR}, ${EDITABLE_SELECTOR}`) as HTMLElement | null;
+    const form = field ? this.getCommandForm(field) : null;
+    if (!field || !form) {
+      showFormMemoryToast('入力欄を選択してから実行してください');
+      return 'no-field';
+    }
+
+    const name = mapFieldKeys(form, getCapturableFields(form)).get(field);
+    const saved = await this.findSnapshotsForForm(form);
+    const history: FormFieldValue[] = [];
+    const seen = new Set<string>();
+
+    // Values typed into the field come first, then those of its saved snapshots
+    if (name && this.getHistoryFieldName(form, field)) {
+      const response = await chrome.runtime.sendMessage({ action: 'getFieldHistory', url: window.location.href, key: name });
+      (response?.values ?? []).forEach((value: string) => {
+        seen.add(value);
+        history.push(value);
+      });
+    }
+
+    if (name && !this.shouldSkipField(field as FormField, name) && saved) {
+      [...saved.snapshots]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .forEach(snapshot => {
+          const value = snapshot.encryptedData ? undefined : this.cleanSecurityFields(snapshot.data)[name];
+          const formatted = value === undefined ? '' : formatFieldValue(value);
+          if (formatted !== '' && !seen.has(formatted)) {
+            seen.add(formatted);
+            history.push(value!);
+          }
+        });
+    }
+    if (history.length === 0) {
+      showFormMemoryToast('この項目の履歴はありません');
+      return 'no-history';
+    }
+
+    const current = formatFieldValue(this.captureFieldValue(form, field, name!));
+    const index = (history.findIndex(value => formatFieldValue(value) === current) + 1) % history.length;
+    this.restoreField(form, field, name!, history[index], new Set());
+    showFormMemoryToast(`履歴から入力しました (${index + 1}/${history.length})`);
+    return undefined;
+  }
+
+  // Fills the fields of a form whose type a profile has a value for. Requested from the popup,
+  // which acts on the form with focus, or the context menu, which acts on the right-clicked one.
+  // Without either, the form with the most fields the profile can fill is used.
+  private async fillProfile(profileId: string, fromMenu = false): Promise<{ success: boolean; filled?: number; error?: string }> {
+    const errorMessages: { [error: string]: string } = {
+      'blocked': 'サイトごとのルールにより、このページでは入力できません',
+      'not-found': 'プロフィールが見つかりません',
+      'locked': 'プロフィールは暗号化されています。オプション画面でロックを解除してください',
+      'no-match': 'プロフィールで入力できる項目が見つかりません'
+    };
+    const fail = (error: string) => {
+      showFormMemoryToast(errorMessages[error]);
+      return { success: false, error };
+    };
+
+    if (!this.siteAccess.restore) {
+      return fail('blocked');
+    }
+
+    const response = await chrome.runtime.sendMessage({ action: 'getProfile', key: profileId });
+    const profile: Profile | null = response?.profile ?? null;
+    if (!profile) {
+      return fail('not-found');
+    }
+    if (profile.encryptedData) {
+      return fail('locked');
+    }
+
+    const target = this.getCommandForm(fromMenu ? this.contextMenuTarget : this.getFocusedElement());
+    const candidates = (target ? [target] : this.forms)
+      .filter(form => !this.isAuthenticationForm(form))
+      .map(form => ({ form, fields: this.getProfileFields(form, profile) }))
+      .sort((a, b) => b.fields.size - a.fields.size);
+    if (candidates.length === 0 || candidates[0].fields.size === 0) {
+      return fail('no-match');
+    }
+
+    const { form, fields } = candidates[0];
+    const processedGroups = new Set<string>();
+    const restoredFields: RestoredField[] = [];
+    fields.forEach(({ name, value }, field) => {
+      const previous = this.captureFieldValue(form, field, name);
+      this.restoreField(form, field, name, value, processedGroups);
+      if (formatFieldValue(previous) !== formatFieldValue(this.captureFieldValue(form, field, name))) {
+        restoredFields.push({ field, name, previous });
+      }
+    });
+
+    if (restoredFields.length > 0) {
+      this.showUndoUI(form, restoredFields);
+    }
+    showFormMemoryToast(`プロフィール「${profile.name}」で ${restoredFields.length} 項目を入力しました`);
+    console.log(`Filled ${restoredFields.length} fields from profile: ${profile.id}`);
+    return { success: true, filled: restoredFields.length };
+  }
+
+  // Fields of a form the profile has a value for, with their key and the value to write. Fields
+  // the sensitive-field rules exclude are never filled, as they are never saved either.
+  private getProfileFields(form: HTMLElement, profile: Profile): Map<HTMLElement, { name: string; value: string }> {
+    const fields = new Map<HTMLElement, { name: string; value: string }>();
+
+    mapFieldKeys(form, getCapturableFields(form)).forEach((name, field) => {
+      const isSelect = field.tagName === 'SELECT' && !(field as HTMLSelectElement).multiple;
+      if (!field.matches(TEXT_FIELD_SELECTOR) && !isSelect) {
+        return;
+      }
+
+      const type = inferSemanticType(this.describeField(field as FormField, name), createFieldLocator(field, form));
+      let value = type ? profile.values[type] : undefined;
+      if (!value || this.shouldSkipField(field as FormField, name)) {
+        return;
+      }
+
+      // Selects take the option whose value or text is the profile's value, e.g. a prefecture
+      if (isSelect) {
+        const option = Array.from((field as HTMLSelectElement).options)
+          .find(candidate => candidate.value === value || candidate.text.trim() === value);
+        if (!option) {
+          return;
+        }
+        value = option.value;
+      }
+
+      fields.set(field, { name, value });
+    });
+
+    return fields;
+  }
+
+  // The focused element, followed into open shadow roots and same-origin frames
+  private getFocusedElement(): Element | null {
+    let element = document.activeElement;
+    while (element) {
+      const inner = element.shadowRoot?.activeElement ??
+        (element instanceof HTMLIFrameElement ? this.getFrameActiveElement(element) : null);
+      if (!inner) {
+        break;
+      }
+      element = inner;
+    }
+    return element;
+  }
+
+  private getFrameActiveElement(frame: HTMLIFrameElement): Element | null {
+    try {
+      return frame.contentDocument?.activeElement ?? null;
+    } catch {
+      // Cross-origin frames run their own content script, if any
+      return null;
+    }
+  }
+
+  // The form containing the target, or the page's only form when nothing on a form is targeted
+  private getCommandForm(target: Element | null): HTMLElement | null {
+    const containing = target ? this.forms.filter(form => form.contains(target)) : [];
+    if (containing.length > 0) {
+      // Virtual forms can sit inside a container that is itself a virtual form's root
+      return containing.reduce((inner, form) => (inner.contains(form) ? form : inner));
+    }
+    return this.forms.length === 1 ? this.forms[0] : null;
+  }
+
+  // The saved snapshots of a form: those under the key it was matched to or saved under, else
+  // those of the best-matching saved form on the page that no other form has claimed
+  private async findSnapshotsForForm(form: HTMLElement): Promise<{ formKey: string; snapshots: StoredFormData[] } | null> {
+    const response = await chrome.runtime.sendMessage({
+      action: 'getPageFormData',
+      key: this.getPageKey()
+    });
+    const pageData: { [key: string]: StoredFormData } = response?.data || {};
+
+    const knownKey = this.formKeys.get(form);
+    const claimedKeys = new Set(this.formKeys.values());
+    const savedForms = new Map<string, StoredFormData[]>();
+    for (const snapshot of Object.values(pageData)) {
+      const formKey = snapshot.formKey!;
+      if (knownKey ? formKey === knownKey : !claimedKeys.has(formKey)) {
+        savedForms.set(formKey, [...(savedForms.get(formKey) || []), snapshot]);
+      }
+    }
+
+    if (knownKey) {
+      return savedForms.has(knownKey) ? { formKey: knownKey, snapshots: savedForms.get(knownKey)! } : null;
+    }
+
+    const fingerprint = createFormFingerprint(form);
+    let best: { formKey: string; snapshots: StoredFormData[]; score: number } | null = null;
+    for (const [formKey, snapshots] of savedForms) {
+      const score = scoreFingerprint(fingerprint, this.getSavedFingerprint(snapshots));
+      if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) {
+        best = { formKey, snapshots, score };
+      }
+    }
+    return best;
+  }
+
+  private truncate(text: string): string {
+    return text.length > 100 ? text.substring(0, 100) + '...' : text;
+  }
+
+  // Pairs each saved field with an element of the form: by key first, then for fields whose key
+  // no longer exists (e.g. a generated name changed) through the saved locator's ranked fallbacks
+  private resolveSavedFields(form: HTMLElement, data: FormData, locators: { [fieldName: string]: FieldLocator }): Map<HTMLElement, string> {
+    const resolved = new Map<HTMLElement, string>();
+    const matchedKeys = new Set<string>();
+    const unmatched: HTMLElement[] = [];
+
+    mapFieldKeys(form, getCapturableFields(form)).forEach((key, element) => {
+      if (data.hasOwnProperty(key)) {
+        resolved.set(element, key);
+        matchedKeys.add(key);
+      } else {
+        unmatched.push(element);
+      }
+    });
+
+    for (const key of Object.keys(data)) {
+      if (matchedKeys.has(key) || !locators[key]) {
+        continue;
+      }
+
+      const element = findField(locators[key], form, unmatched);
+      if (element) {
+        console.log(`Field ${key} located by fallback`);
+        resolved.set(element, key);
+        unmatched.splice(unmatched.indexOf(element), 1);
+      }
+    }
+
+    return resolved;
+  }
+
+  private getFormKey(form: HTMLElement): string {
+    return this.formKeys.get(form) ?? this.generateStorageKey(form);
+  }
+
+  private generateStorageKey(form: HTMLElement): string {
+    return `${this.getPageKey()}_form_${getFingerprintHash(createFormFingerprint(form))}`;
+  }
+
+  private getPageKey(): string {
+    if (this.pageKey) {
+      return this.pageKey.key;
+    }
+    // Until the background answers, the key every page has without URL rules
     const url = new URL(window.location.href);
-    return `${url.origin}${url.pathname}_form_${formIndex}`;
+    return `${url.origin}${url.pathname}`;
+  }
+
+  // Resolves the key of the page's saved data; returns whether it changed from the one in use
+  private async refreshPageKey(): Promise<boolean> {
+    const url = window.location.href;
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getPageKey', url });
+      if (!response?.key) {
+        return false;
+      }
+      const previous = this.pageKey?.key;
+      this.pageKey = { url, key: response.key };
+      return previous !== undefined && previous !== response.key;
+    } catch (error) {
+      console.error('Failed to resolve page key:', error);
+      return false;
+    }
+  }
+
+  // When the URL or the URL rules change, forms may now belong to other saved data. They are
+  // matched again under the new key, as if the page had been loaded there.
+  private onLocationChange(force = false) {
+    const url = window.location.href;
+    if (!force && (this.pageKey?.url === url || this.pendingPageUrl === url)) {
+      return;
+    }
+
+    this.pendingPageUrl = url;
+    this.queueLoad(async () => {
+      const changed = await this.refreshPageKey();
+      if (this.pendingPageUrl === url) {
+        this.pendingPageUrl = null;
+      }
+      if (changed) {
+        console.log(`Page key changed to: ${this.getPageKey()}`);
+        this.formKeys.clear();
+        await this.loadSavedData();
+      }
+    }, 'reload saved data for the new URL');
+  }
+}
+
+// Resolves the site rules for this page; without an answer from the background everything stays on
+async function getSiteAccess(): Promise<SiteAccess> {
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getSiteAccess', url: window.location.href });
+    return response?.access ?? { save: true, restore: true, prompt: true };
+  } catch (error) {
+    console.error('Failed to load site rules:', error);
+    return { save: true, restore: true, prompt: true };
   }
 }
 
 console.log('FormMemory content script loaded');
 
 let formMemoryInstance: FormMemory | null = null;
+let waitingForSiteAccess = false;
 
-function initFormMemory() {
+async function initFormMemory() {
   console.log('Document ready state:', document.readyState);
   
   // Prevent multiple instances
@@ -832,8 +2249,32 @@ function initFormMemory() {
     console.log('FormMemory already initialized, skipping');
     return;
   }
-  
-  formMemoryInstance = new FormMemory();
+
+  // Site rules are checked first, so a blocked site never has its forms scanned
+  const siteAccess = await getSiteAccess();
+  if (!siteAccess.save && !siteAccess.restore && !siteAccess.prompt) {
+    console.log('FormMemory is turned off on this page by a site rule');
+    waitForSiteAccess();
+    return;
+  }
+
+  if (!formMemoryInstance) {
+    formMemoryInstance = new FormMemory(siteAccess);
+  }
+}
+
+// Starts Form Memory once a settings change lifts the rule that turned it off here
+function waitForSiteAccess() {
+  if (waitingForSiteAccess) {
+    return;
+  }
+  waitingForSiteAccess = true;
+
+  chrome.runtime.onMessage.addListener((message: { action: string }) => {
+    if (message.action === 'settingsChanged' && !formMemoryInstance) {
+      initFormMemory();
+    }
+  });
 }
 
 if (document.readyState === 'loading') {
@@ -0,0 +1,24 @@
+// Builds a structural CSS path such as `div:nth-of-type(2)>form:nth-of-type(1)` from the root
+// down to the element. Only tag names and sibling positions are used so the path does not
+// depend on generated class names or ids. Inside a shadow tree the path starts at the tree's
+// top-level element.
+export function getStructuralPath(element: Element, root: Element = element.ownerDocument.body): string {
+  const segments: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== root) {
+    const parent: Element | null = current.parentElement;
+    const tagName = current.tagName.toLowerCase();
+
+    if (!parent) {
+      segments.unshift(tagName);
+      break;
+    }
+
+    const sameTagSiblings = Array.from(parent.children).filter(child => child.tagName === current!.tagName);
+    segments.unshift(`${tagName}:nth-of-type(${sameTagSiblings.indexOf(current) + 1})`);
+    current = parent;
+  }
+
+  return segments.join('>');
+}
@@ -0,0 +1,88 @@
+import { getStructuralPath } from './dom-path';
+
+export type SearchRoot = Document | ShadowRoot;
+
+// Nodes from same-origin frames belong to another realm, so `instanceof` checks against this
+// window's classes fail for them; node types are compared instead.
+export function isShadowRoot(node: Node): node is ShadowRoot {
+  return node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in node;
+}
+
+export function isElement(node: unknown): node is Element {
+  return !!node && (node as Node).nodeType === Node.ELEMENT_NODE;
+}
+
+// Collects the open shadow roots and same-origin frame documents directly inside a search root,
+// without looking into them. The extension's own components are skipped so their inputs are
+// never captured.
+export function collectChildRoots(root: SearchRoot, onFrame?: (frame: HTMLIFrameElement) => void): SearchRoot[] {
+  const children: SearchRoot[] = [];
+
+  root.querySelectorAll('*').forEach(element => {
+    if (element.shadowRoot && !element.tagName.toLowerCase().startsWith('form-memory-')) {
+      children.push(element.shadowRoot);
+    }
+
+    if (element.tagName === 'IFRAME' || element.tagName === 'FRAME') {
+      onFrame?.(element as HTMLIFrameElement);
+      const frameDocument = getFrameDocument(element as HTMLIFrameElement);
+      if (frameDocument) {
+        children.push(frameDocument);
+      }
+    }
+  });
+
+  return children;
+}
+
+// Whether a search root is still part of the page: its shadow host or frame, and every one
+// around those, is still in its document
+export function isSearchRootConnected(root: SearchRoot): boolean {
+  if (isShadowRoot(root)) {
+    return root.host.isConnected && isSearchRootConnected(root.host.getRootNode() as SearchRoot);
+  }
+  if (root === document) {
+    return true;
+  }
+
+  // A frame that navigated or was removed leaves its old document without a window
+  const frame = (root as Document).defaultView?.frameElement;
+  return !!frame && frame.isConnected && isSearchRootConnected(frame.getRootNode() as SearchRoot);
+}
+
+// Describes which frames and shadow hosts lie between the top document and a node, e.g.
+// `frame:div:nth-of-type(1)>iframe:nth-of-type(1) / shadow:my-app:nth-of-type(1)`.
+// Nodes of the top document have an empty scope path.
+export function getScopePath(node: Node): string {
+  const segments: string[] = [];
+  let current: Node = node;
+
+  while (true) {
+    const rootNode = current.getRootNode();
+
+    if (isShadowRoot(rootNode)) {
+      segments.unshift(`shadow:${getStructuralPath(rootNode.host)}`);
+      current = rootNode.host;
+      continue;
+    }
+
+    const frame = (rootNode as Document).defaultView?.frameElement;
+    if (frame && rootNode !== document) {
+      segments.unshift(`frame:${getStructuralPath(frame)}`);
+      current = frame;
+      continue;
+    }
+
+    return segments.join(' / ');
+  }
+}
+
+function getFrameDocument(frame: HTMLIFrameElement): Document | null {
+  try {
+    // Cross-origin frames either return null or throw
+    const frameDocument = frame.contentDocument;
+    return frameDocument?.body ? frameDocument : null;
+  } catch {
+    return null;
+  }
+}
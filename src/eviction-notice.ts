@@ -0,0 +1,180 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { panelStyles } from './ui-styles';
+import type { EvictedEntry } from './types';
+
+export type RestoreState = 'idle' | 'restoring' | 'restored' | 'error';
+
+@customElement('form-memory-eviction-notice')
+export class FormMemoryEvictionNotice extends LitElement {
+  @property({ attribute: false })
+  entries: EvictedEntry[] = [];
+
+  @state()
+  private isClosing = false;
+
+  @state()
+  private restoreState: RestoreState = 'idle';
+
+  private hideTimer: number | null = null;
+
+  static styles = [panelStyles, css`
+    /* Bottom corner, clear of the save prompt that is closing at the top */
+    :host {
+      top: auto;
+      bottom: 20px;
+    }
+
+    .panel {
+      max-width: 340px;
+    }
+
+    .entries {
+      max-height: 160px;
+      overflow-y: auto;
+      margin: 0 0 12px;
+      padding: 0;
+      list-style: none;
+      border-top: 1px solid #e1e5e9;
+    }
+
+    .entry {
+      padding: 6px 0;
+      border-bottom: 1px solid #e1e5e9;
+      font-size: 12px;
+      color: #333;
+      overflow-wrap: anywhere;
+    }
+
+    .entry-snapshot {
+      color: #6c757d;
+    }
+  `];
+
+  render() {
+    return html`
+      <div
+        class="panel ${this.isClosing ? 'closing' : ''}"
+        role="dialog"
+        aria-labelledby="form-memory-eviction-message"
+        @keydown="${this.handleKeydown}"
+        @focusin="${this.pauseAutoHide}"
+        @mouseenter="${this.pauseAutoHide}"
+      >
+        <button class="close-btn" aria-label="閉じる" @click="${this.close}">×</button>
+        <div class="message" id="form-memory-eviction-message">
+          保存容量を確保するため、${this.entries.length} 件の保存データを削除しました
+        </div>
+        <ul class="entries">
+          ${this.entries.map(entry => html`
+            <li class="entry">
+              ${this.formatUrl(entry.url)}
+              <span class="entry-snapshot">(${entry.snapshotName || 'デフォルト'})</span>
+            </li>
+          `)}
+        </ul>
+        <div class="buttons">
+          <button
+            class="btn btn-primary"
+            ?disabled="${this.restoreState === 'restoring' || this.restoreState === 'restored'}"
+            @click="${this.handleRestore}"
+          >
+            ${this.getRestoreLabel()}
+          </button>
+          <button class="btn btn-secondary" @click="${this.close}">
+            閉じる
+          </button>
+        </div>
+        <div class="visually-hidden" role="status" aria-live="polite">
+          ${this.restoreState === 'idle' ? '' : this.getRestoreLabel()}
+        </div>
+      </div>
+    `;
+  }
+
+  private formatUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return parsed.hostname + parsed.pathname;
+    } catch {
+      return url;
+    }
+  }
+
+  private getRestoreLabel(): string {
+    switch (this.restoreState) {
+      case 'restoring':
+        return '元に戻しています...';
+      case 'restored':
+        return '元に戻しました';
+      case 'error':
+        return '元に戻せませんでした';
+      default:
+        return '元に戻す';
+    }
+  }
+
+  private handleKeydown(e: KeyboardEvent) {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close();
+    }
+  }
+
+  private handleRestore() {
+    this.pauseAutoHide();
+    this.dispatchEvent(new CustomEvent('restore-evicted', { detail: { keys: this.entries.map(entry => entry.key) } }));
+  }
+
+  // Called by the content script as the restore it requested progresses
+  setRestoreState(restoreState: RestoreState) {
+    this.restoreState = restoreState;
+    if (restoreState === 'restored') {
+      // Show the result briefly before closing
+      this.hideTimer = window.setTimeout(() => this.close(), 1000);
+    }
+  }
+
+  private pauseAutoHide() {
+    if (this.hideTimer) {
+      clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+    }
+  }
+
+  close() {
+    if (this.isClosing) {
+      return;
+    }
+
+    this.pauseAutoHide();
+    this.isClosing = true;
+    setTimeout(() => this.remove(), 200);
+  }
+
+  show() {
+    // The entries stay recoverable from the options page after the notice is gone
+    this.hideTimer = window.setTimeout(() => {
+      this.hideTimer = null;
+      this.close();
+    }, 15000);
+  }
+}
+
+// Tells the user which entries a save pushed out, with a way to put them back
+export function showEvictionNotice(entries: EvictedEntry[]): FormMemoryEvictionNotice {
+  document.querySelector('form-memory-eviction-notice')?.remove();
+
+  const notice = new FormMemoryEvictionNotice();
+  notice.entries = entries;
+  document.body.appendChild(notice);
+  notice.show();
+
+  return notice;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'form-memory-eviction-notice': FormMemoryEvictionNotice;
+  }
+}
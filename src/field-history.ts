@@ -0,0 +1,172 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+// Suggestions of values typed into a field before, shown below the focused field. Focus stays
+// in the field, so the content script forwards its key presses to handleKey.
+@customElement('form-memory-field-history')
+export class FormMemoryFieldHistory extends LitElement {
+  @property({ attribute: false })
+  values: string[] = [];
+
+  @state()
+  private highlighted = -1;
+
+  static styles = css`
+    :host {
+      position: fixed;
+      z-index: 2147483647;
+      font-family: system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    }
+
+    .list {
+      margin: 0;
+      padding: 4px 0;
+      list-style: none;
+      background: white;
+      border: 1px solid #e1e5e9;
+      border-radius: 6px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+      max-height: 220px;
+      overflow-y: auto;
+    }
+
+    .option {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 8px 6px 12px;
+      font-size: 13px;
+      color: #333;
+      cursor: pointer;
+    }
+
+    .option.highlighted {
+      background: #e7f1ff;
+    }
+
+    .value {
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .delete-btn {
+      border: none;
+      background: none;
+      padding: 0 4px;
+      font-size: 14px;
+      line-height: 1;
+      color: #6c757d;
+      cursor: pointer;
+    }
+
+    .delete-btn:hover {
+      color: #dc3545;
+    }
+
+    .hint {
+      padding: 4px 12px 0;
+      border-top: 1px solid #e1e5e9;
+      margin-top: 4px;
+      font-size: 11px;
+      color: #6c757d;
+    }
+  `;
+
+  render() {
+    // mousedown is cancelled so clicking a suggestion does not take focus from the field
+    return html`
+      <ul class="list" role="listbox" aria-label="入力履歴" @mousedown="${(e: Event) => e.preventDefault()}">
+        ${this.values.map((value, index) => html`
+          <li
+            class="option ${index === this.highlighted ? 'highlighted' : ''}"
+            role="option"
+            aria-selected="${index === this.highlighted}"
+            @mouseenter="${() => this.highlighted = index}"
+            @click="${() => this.select(value)}"
+          >
+            <span class="value" title="${value}">${value}</span>
+            <button
+              class="delete-btn"
+              aria-label="履歴から削除"
+              title="履歴から削除"
+              @click="${(e: Event) => { e.stopPropagation(); this.delete(value); }}"
+            >×</button>
+          </li>
+        `)}
+        <li class="hint" role="presentation">↑↓ で選択、Enter で入力、Shift+Delete で削除</li>
+      </ul>
+    `;
+  }
+
+  // Handles a key pressed in the field; returns whether the key was used
+  handleKey(e: KeyboardEvent): boolean {
+    if (this.values.length === 0) {
+      return false;
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+        this.highlighted = (this.highlighted + 1) % this.values.length;
+        return true;
+      case 'ArrowUp':
+        this.highlighted = this.highlighted <= 0 ? this.values.length - 1 : this.highlighted - 1;
+        return true;
+      case 'Enter':
+        if (this.highlighted < 0) {
+          return false;
+        }
+        this.select(this.values[this.highlighted]);
+        return true;
+      case 'Delete':
+        if (!e.shiftKey || this.highlighted < 0) {
+          return false;
+        }
+        this.delete(this.values[this.highlighted]);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  // Called by the content script once a value is gone from the stored history
+  removeValue(value: string) {
+    this.values = this.values.filter(candidate => candidate !== value);
+    this.highlighted = Math.min(this.highlighted, this.values.length - 1);
+  }
+
+  // Places the list below the field, in viewport coordinates of the top document
+  positionBelow(rect: { left: number; bottom: number; width: number }) {
+    this.style.left = `${rect.left}px`;
+    this.style.top = `${rect.bottom + 2}px`;
+    this.style.minWidth = `${Math.max(rect.width, 160)}px`;
+    this.style.maxWidth = `${Math.max(rect.width, 320)}px`;
+  }
+
+  private select(value: string) {
+    this.dispatchEvent(new CustomEvent('history-select', { detail: { value } }));
+  }
+
+  private delete(value: string) {
+    this.dispatchEvent(new CustomEvent('history-delete', { detail: { value } }));
+  }
+}
+
+// Shows the history of a field below it, replacing any list shown for another field
+export function showFieldHistory(values: string[]): FormMemoryFieldHistory {
+  document.querySelector('form-memory-field-history')?.remove();
+
+  const dropdown = new FormMemoryFieldHistory();
+  dropdown.values = values;
+  document.body.appendChild(dropdown);
+
+  return dropdown;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'form-memory-field-history': FormMemoryFieldHistory;
+  }
+}
@@ -0,0 +1,132 @@
+import type { FieldLocator } from './types';
+import { getStructuralPath } from './dom-path';
+
+export type FormField = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+export const FIELD_SELECTOR = 'input:not([type="file"]), textarea, select';
+
+export const EDITABLE_SELECTOR = '[contenteditable=""], [contenteditable="true"], [contenteditable="plaintext-only"]';
+
+// Labels longer than this are cut so long help texts do not end up in storage keys
+const MAX_LABEL_LENGTH = 60;
+
+export function isEditableField(element: Element): boolean {
+  return element.matches(EDITABLE_SELECTOR);
+}
+
+export function createFieldLocator(element: HTMLElement, root: Element): FieldLocator {
+  const locator: FieldLocator = {
+    path: getStructuralPath(element, root)
+  };
+
+  const name = element.getAttribute('name');
+  if (name) {
+    locator.name = name;
+  }
+  if (element.id) {
+    locator.id = element.id;
+  }
+
+  const label = getLabelText(element);
+  if (label) {
+    locator.label = label;
+  }
+
+  const ariaLabel = normalizeText(element.getAttribute('aria-label'));
+  if (ariaLabel) {
+    locator.ariaLabel = ariaLabel;
+  }
+
+  const placeholder = normalizeText(element.getAttribute('placeholder'));
+  if (placeholder) {
+    locator.placeholder = placeholder;
+  }
+
+  return locator;
+}
+
+// Storage key for a field, from the most to the least stable thing that identifies it
+export function getFieldKey(locator: FieldLocator): string {
+  if (locator.name) {
+    return locator.name;
+  }
+  if (locator.id) {
+    return locator.id;
+  }
+  if (locator.label) {
+    return `label:${locator.label}`;
+  }
+  if (locator.ariaLabel) {
+    return `aria:${locator.ariaLabel}`;
+  }
+  if (locator.placeholder) {
+    return `placeholder:${locator.placeholder}`;
+  }
+  return `path:${locator.path}`;
+}
+
+// Maps every field of a form to its key. Unnamed fields that derive the same key get a
+// `#<n>` suffix in document order, so the mapping is the same on every visit.
+export function mapFieldKeys(root: Element, fields: HTMLElement[]): Map<HTMLElement, string> {
+  const keys = new Map<HTMLElement, string>();
+  const derivedKeyCounts = new Map<string, number>();
+
+  fields.forEach(element => {
+    let key = getFieldKey(createFieldLocator(element, root));
+
+    if (!element.getAttribute('name') && !element.id) {
+      const count = (derivedKeyCounts.get(key) || 0) + 1;
+      derivedKeyCounts.set(key, count);
+      if (count > 1) {
+        key = `${key}#${count}`;
+      }
+    }
+
+    keys.set(element, key);
+  });
+
+  return keys;
+}
+
+// Finds the field a saved locator points to among fields that did not match by key.
+// Each attribute is tried in order of stability and only an unambiguous match is accepted.
+export function findField(locator: FieldLocator, root: Element, candidates: HTMLElement[]): HTMLElement | null {
+  const rankedMatchers: ((element: HTMLElement) => boolean)[] = [
+    element => !!locator.name && element.getAttribute('name') === locator.name,
+    element => !!locator.id && element.id === locator.id,
+    element => !!locator.label && getLabelText(element) === locator.label,
+    element => !!locator.ariaLabel && normalizeText(element.getAttribute('aria-label')) === locator.ariaLabel,
+    element => !!locator.placeholder && normalizeText(element.getAttribute('placeholder')) === locator.placeholder,
+    element => getStructuralPath(element, root) === locator.path
+  ];
+
+  for (const matches of rankedMatchers) {
+    const found = candidates.filter(matches);
+    if (found.length === 1) {
+      return found[0];
+    }
+  }
+
+  return null;
+}
+
+function getLabelText(element: HTMLElement): string {
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map(id => element.ownerDocument.getElementById(id)?.textContent || '')
+      .join(' ');
+    if (normalizeText(text)) {
+      return normalizeText(text);
+    }
+  }
+
+  // contenteditable regions have no associated <label>s
+  const label = (element as FormField).labels?.[0];
+  return label ? normalizeText(label.textContent) : '';
+}
+
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim().substring(0, MAX_LABEL_LENGTH);
+}
@@ -0,0 +1,97 @@
+import type { FormFieldValue, TypedInputValue } from './types';
+import type { FormField } from './field-locator';
+
+// Formats the browser checks for each typed input; values that do not fit are not restored
+const TYPED_INPUT_FORMATS: { [inputType: string]: RegExp } = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?$/,
+  'datetime-local': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?$/,
+  month: /^\d{4}-\d{2}$/,
+  week: /^\d{4}-W\d{2}$/,
+  color: /^#[0-9a-f]{6}$/i,
+  range: /^-?\d+(\.\d+)?$/
+};
+
+export function isTypedInput(element: FormField): boolean {
+  return element.tagName === 'INPUT' && element.type in TYPED_INPUT_FORMATS;
+}
+
+export function isTypedInputValue(value: unknown): value is TypedInputValue {
+  return !!value && typeof value === 'object' && (value as TypedInputValue).kind === 'typed';
+}
+
+export function createTypedInputValue(element: HTMLInputElement): TypedInputValue {
+  return { kind: 'typed', inputType: element.type, value: element.value };
+}
+
+// Reads a saved value as a list, for fields that hold several values. Single values saved
+// before lists existed become a one-item list.
+export function toValueList(value: FormFieldValue): string[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (typeof value === 'object') {
+    return [isTypedInputValue(value) ? value.value : value.text];
+  }
+  return [];
+}
+
+// Reads a saved value as a single string, for fields that hold one value
+export function toValueString(value: FormFieldValue): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value[0] ?? null;
+  }
+  if (typeof value === 'object') {
+    return isTypedInputValue(value) ? value.value : value.text;
+  }
+  return null;
+}
+
+// Brings a saved value into the format the typed input accepts, or null when it cannot be used
+export function normalizeTypedValue(element: HTMLInputElement, raw: string): string | null {
+  let value = raw.trim();
+
+  if (element.type === 'color' && /^#[0-9a-f]{3}$/i.test(value)) {
+    value = '#' + value.slice(1).split('').map(c => c + c).join('');
+  }
+
+  const format = TYPED_INPUT_FORMATS[element.type];
+  if (format && !format.test(value)) {
+    return null;
+  }
+
+  if (element.type === 'color') {
+    return value.toLowerCase();
+  }
+
+  if (element.type === 'range') {
+    const min = element.min !== '' ? Number(element.min) : 0;
+    const max = element.max !== '' ? Number(element.max) : 100;
+    return String(Math.min(max, Math.max(min, Number(value))));
+  }
+
+  return value;
+}
+
+// Display text of a value, for prompts that compare saved and current values
+export function formatFieldValue(value: FormFieldValue | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'チェック済み' : 'チェックなし';
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  if (typeof value === 'object') {
+    return isTypedInputValue(value) ? value.value : value.text;
+  }
+  return value;
+}
@@ -0,0 +1,89 @@
+import type { FormFingerprint } from './types';
+import { getStructuralPath } from './dom-path';
+import { mapFieldKeys } from './field-locator';
+import { getCapturableFields } from './virtual-form';
+import { getScopePath } from './dom-traversal';
+
+// Minimum score for a saved form to be restored into a form on the page
+export const MIN_MATCH_SCORE = 20;
+
+export function createFormFingerprint(form: HTMLElement): FormFingerprint {
+  const fields = new Set(mapFieldKeys(form, getCapturableFields(form)).values());
+
+  return {
+    id: form.id,
+    // Virtual forms have no name, but their containers are often labelled
+    name: form.getAttribute('name') || form.getAttribute('aria-label') || '',
+    action: form.getAttribute('action') || '',
+    fields: Array.from(fields).sort(),
+    domPath: getStructuralPath(form),
+    scopePath: getScopePath(form)
+  };
+}
+
+// Short stable hash of the parts of a fingerprint that describe what the form is, not where it is,
+// so a form keeps its storage key when it moves within the page. The frame or shadow host a form
+// lives in is part of its identity, which keeps identical components in different hosts apart.
+export function getFingerprintHash(fingerprint: FormFingerprint): string {
+  const source = [fingerprint.id, fingerprint.name, fingerprint.action, ...fingerprint.fields];
+  if (fingerprint.scopePath) {
+    source.push(fingerprint.scopePath);
+  }
+  const text = source.join('\u0000');
+
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(36);
+}
+
+// Scores how likely a form on the page is the one a saved fingerprint was taken from.
+// Higher is better; anything below MIN_MATCH_SCORE should not be treated as a match.
+export function scoreFingerprint(candidate: FormFingerprint, saved: FormFingerprint): number {
+  let score = 0;
+
+  if (saved.id && candidate.id === saved.id) {
+    score += 30;
+  }
+  if (saved.name && candidate.name === saved.name) {
+    score += 20;
+  }
+  if (saved.action && candidate.action === saved.action) {
+    score += 10;
+  }
+
+  score += Math.round(fieldSimilarity(candidate.fields, saved.fields) * 40);
+
+  if (candidate.domPath === saved.domPath) {
+    score += 10;
+  }
+  // A form in another frame or shadow root is less likely the same one. Matching scopes add
+  // nothing, as nearly every form is in the top document and a bonus would lower the threshold.
+  if ((candidate.scopePath || '') !== (saved.scopePath || '')) {
+    score -= 10;
+  }
+
+  return score;
+}
+
+// Jaccard similarity of two field name lists
+export function fieldSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) {
+    return 0;
+  }
+
+  const setA = new Set(a);
+  const setB = new Set(b);
+  let shared = 0;
+  setA.forEach(name => {
+    if (setB.has(name)) {
+      shared++;
+    }
+  });
+
+  return shared / (setA.size + setB.size - shared);
+}
@@ -1,12 +1,60 @@
-interface StoredFormData {
+import type { EvictedEntry, ExportEnvelope, FieldHistoryValue, FormData, FormFieldValue, ImportPreviewEntry, ImportStrategy, Profile, RestorePolicy, RestorePolicyConfig, SensitiveDetector, SensitiveFieldConfig, SemanticFieldType, SensitiveFieldRule, Settings, SiteAccess, SiteRule, StorageAreaName, StorageUsage, StoredFormData, UrlRule } from './types';
+
+// Verdict the content script reports for one field in a dry run of the sensitive-field rules
+interface DryRunField {
+  field: string;
+  dropped: boolean;
+  source: 'password' | 'rule' | 'builtin' | 'detector' | 'none';
+  detail?: string;
+}
+
+// How applying the source snapshot changes a field of the target snapshot
+interface SnapshotChange {
+  field: string;
+  status: 'added' | 'removed' | 'changed';
+}
+
+interface FormGroup {
+  formKey: string;
   url: string;
-  data: { [fieldName: string]: string | boolean };
-  timestamp: number;
+  // Storage key and data of each snapshot, newest first
+  snapshots: [string, StoredFormData][];
 }
 
+// Field types a profile can hold, in the order the editor shows them
+const PROFILE_FIELDS: [SemanticFieldType, string][] = [
+  ['name', '氏名'],
+  ['family-name', '姓'],
+  ['given-name', '名'],
+  ['email', 'メールアドレス'],
+  ['tel', '電話番号'],
+  ['organization', '会社名'],
+  ['organization-title', '役職'],
+  ['postal-code', '郵便番号'],
+  ['country', '国'],
+  ['address-level1', '都道府県'],
+  ['address-level2', '市区町村'],
+  ['address-line1', '住所 1 (番地)'],
+  ['address-line2', '住所 2 (建物名)'],
+  ['username', 'ユーザー名'],
+  ['url', 'ウェブサイト'],
+  ['bday', '生年月日']
+];
+
 class OptionsPage {
   private allFormData: { [key: string]: StoredFormData } = {};
   private filteredData: { [key: string]: StoredFormData } = {};
+  // Storage area each entry is kept in
+  private storageAreas: { [key: string]: StorageAreaName } = {};
+  private restorePolicies: RestorePolicyConfig = { default: 'auto', sites: {} };
+  private siteRules: SiteRule[] = [];
+  private urlRules: UrlRule[] = [];
+  private sensitiveFields: SensitiveFieldConfig | null = null;
+  private encryption = { enabled: false, unlocked: false };
+  // Storage keys of the snapshots ticked in the list, for exporting a selection
+  private selectedKeys = new Set<string>();
+  // Profiles as stored, plus any added here and not saved yet
+  private profiles: Profile[] = [];
   
   constructor() {
     this.init();
@@ -14,22 +62,822 @@ class OptionsPage {
 
   private async init() {
     await this.loadFormData();
+    await this.loadDraftMode();
+    await this.loadRestorePolicies();
+    await this.loadSettings();
+    await this.loadEncryptionStatus();
+    await this.loadProfiles();
     this.setupEventListeners();
     this.renderStats();
     this.renderFormsList();
+    this.renderEvictedEntries();
+    this.renderFieldHistory();
   }
 
   private async loadFormData() {
     try {
       const response = await chrome.runtime.sendMessage({ action: 'getAllFormData' });
       this.allFormData = response.data || {};
+      this.storageAreas = response.areas || {};
       this.filteredData = { ...this.allFormData };
+      this.selectedKeys = new Set(Array.from(this.selectedKeys).filter(key => this.allFormData[key]));
       console.log('Loaded form data:', this.allFormData);
     } catch (error) {
       console.error('Failed to load form data:', error);
     }
   }
 
+  private async loadDraftMode() {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getDraftMode' });
+      const toggle = document.getElementById('draft-mode-toggle') as HTMLInputElement | null;
+      if (toggle) {
+        toggle.checked = !!response?.enabled;
+      }
+    } catch (error) {
+      console.error('Failed to load draft mode:', error);
+    }
+  }
+
+  private async setDraftMode(enabled: boolean) {
+    try {
+      await chrome.runtime.sendMessage({ action: 'setDraftMode', enabled });
+      console.log(`Draft mode ${enabled ? 'enabled' : 'disabled'}`);
+    } catch (error) {
+      console.error('Failed to update draft mode:', error);
+      alert('設定の保存に失敗しました。');
+    }
+  }
+
+  private async loadRestorePolicies() {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getRestorePolicies' });
+      if (response?.config) {
+        this.restorePolicies = response.config;
+      }
+    } catch (error) {
+      console.error('Failed to load restore policies:', error);
+    }
+    this.renderRestorePolicies();
+  }
+
+  private async saveRestorePolicies() {
+    try {
+      await chrome.runtime.sendMessage({ action: 'setRestorePolicies', config: this.restorePolicies });
+      this.renderRestorePolicies();
+    } catch (error) {
+      console.error('Failed to save restore policies:', error);
+      alert('設定の保存に失敗しました。');
+    }
+  }
+
+  private renderRestorePolicies() {
+    const defaultSelect = document.getElementById('restore-policy-default') as HTMLSelectElement | null;
+    if (defaultSelect) {
+      defaultSelect.value = this.restorePolicies.default;
+    }
+
+    const sitesEl = document.getElementById('restore-policy-sites');
+    if (!sitesEl) return;
+
+    sitesEl.innerHTML = Object.entries(this.restorePolicies.sites)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([origin, policy]) => `
+        <div class="policy-row">
+          <span class="policy-label">${this.escapeHtml(origin)}</span>
+          <select class="policy-select site-policy-select" data-origin="${this.escapeHtml(origin)}">
+            ${this.renderPolicyOptions(policy)}
+          </select>
+          <button class="btn btn-sm btn-danger remove-site-policy-btn" data-origin="${this.escapeHtml(origin)}">削除</button>
+        </div>
+      `).join('');
+
+    sitesEl.querySelectorAll('.site-policy-select').forEach(select => {
+      select.addEventListener('change', (e) => {
+        const target = e.target as HTMLSelectElement;
+        const origin = target.getAttribute('data-origin');
+        if (origin) {
+          this.restorePolicies.sites[origin] = target.value as RestorePolicy;
+          this.saveRestorePolicies();
+        }
+      });
+    });
+
+    sitesEl.querySelectorAll('.remove-site-policy-btn').forEach(button => {
+      button.addEventListener('click', (e) => {
+        const origin = (e.target as HTMLElement).getAttribute('data-origin');
+        if (origin) {
+          delete this.restorePolicies.sites[origin];
+          this.saveRestorePolicies();
+        }
+      });
+    });
+  }
+
+  private renderPolicyOptions(selected: RestorePolicy): string {
+    const labels: { [policy in RestorePolicy]: string } = {
+      auto: '自動で復元',
+      ask: '確認してから復元',
+      never: '復元しない'
+    };
+    return (Object.keys(labels) as RestorePolicy[])
+      .map(policy => `<option value="${policy}" ${policy === selected ? 'selected' : ''}>${labels[policy]}</option>`)
+      .join('');
+  }
+
+  private addSitePolicy() {
+    const originInput = document.getElementById('restore-policy-origin') as HTMLInputElement;
+    const policySelect = document.getElementById('restore-policy-site-value') as HTMLSelectElement;
+    const value = originInput.value.trim();
+    if (!value) return;
+
+    let origin: string;
+    try {
+      // Accept full URLs and bare host names alike
+      origin = new URL(/^[a-z]+:\/\//i.test(value) ? value : `https://${value}`).origin;
+    } catch {
+      alert('URL の形式が正しくありません。');
+      return;
+    }
+
+    this.restorePolicies.sites[origin] = policySelect.value as RestorePolicy;
+    originInput.value = '';
+    this.saveRestorePolicies();
+  }
+
+  private async loadSettings() {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getSettings' });
+      if (response?.settings) {
+        this.renderSettings(response.settings);
+        this.siteRules = response.settings.siteRules;
+        this.renderSiteRules();
+        this.urlRules = response.settings.urlRules;
+        this.renderUrlRules();
+        this.sensitiveFields = response.settings.sensitiveFields;
+        this.renderSensitiveFields();
+      }
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+    }
+  }
+
+  private async saveSiteRules() {
+    try {
+      await chrome.runtime.sendMessage({ action: 'setSettings', settings: { siteRules: this.siteRules } });
+      this.renderSiteRules();
+    } catch (error) {
+      console.error('Failed to save site rules:', error);
+      alert('設定の保存に失敗しました。');
+    }
+  }
+
+  private renderSiteRules() {
+    const rulesEl = document.getElementById('site-rules');
+    if (!rulesEl) return;
+
+    const flags: [keyof SiteAccess, string][] = [['save', '保存'], ['restore', '復元'], ['prompt', '提案']];
+
+    rulesEl.innerHTML = this.siteRules.map((rule, index) => `
+      <div class="policy-row">
+        <span class="site-rule-pattern">${this.escapeHtml(rule.pattern)}</span>
+        <span class="site-rule-type">${rule.patternType === 'regex' ? '正規表現' : 'マッチパターン'}</span>
+        ${flags.map(([flag, label]) => `
+          <label class="site-rule-flag">
+            <input type="checkbox" class="site-rule-flag-checkbox" data-index="${index}" data-flag="${flag}" ${rule[flag] ? 'checked' : ''}>
+            ${label}
+          </label>
+        `).join('')}
+        <button class="btn btn-sm btn-secondary move-site-rule-btn" data-index="${index}" data-offset="-1" ${index === 0 ? 'disabled' : ''} aria-label="上へ">↑</button>
+        <button class="btn btn-sm btn-secondary move-site-rule-btn" data-index="${index}" data-offset="1" ${index === this.siteRules.length - 1 ? 'disabled' : ''} aria-label="下へ">↓</button>
+        <button class="btn btn-sm btn-danger remove-site-rule-btn" data-index="${index}">削除</button>
+      </div>
+    `).join('');
+
+    rulesEl.querySelectorAll('.site-rule-flag-checkbox').forEach(checkbox => {
+      checkbox.addEventListener('change', (e) => {
+        const target = e.target as HTMLInputElement;
+        const rule = this.siteRules[Number(target.dataset.index)];
+        rule[target.dataset.flag as keyof SiteAccess] = target.checked;
+        this.saveSiteRules();
+      });
+    });
+
+    rulesEl.querySelectorAll('.move-site-rule-btn').forEach(button => {
+      button.addEventListener('click', (e) => {
+        const target = e.currentTarget as HTMLElement;
+        const index = Number(target.dataset.index);
+        const newIndex = index + Number(target.dataset.offset);
+        const [rule] = this.siteRules.splice(index, 1);
+        this.siteRules.splice(newIndex, 0, rule);
+        this.saveSiteRules();
+      });
+    });
+
+    rulesEl.querySelectorAll('.remove-site-rule-btn').forEach(button => {
+      button.addEventListener('click', (e) => {
+        this.siteRules.splice(Number((e.currentTarget as HTMLElement).dataset.index), 1);
+        this.saveSiteRules();
+      });
+    });
+  }
+
+  private async addSiteRule() {
+    const patternInput = document.getElementById('site-rule-pattern') as HTMLInputElement;
+    const typeSelect = document.getElementById('site-rule-type') as HTMLSelectElement;
+    const pattern = patternInput.value.trim();
+    if (!pattern) return;
+
+    // New rules turn everything off, the usual reason to add one; single capabilities can be re-enabled
+    const rule: SiteRule = {
+      pattern,
+      patternType: typeSelect.value as SiteRule['patternType'],
+      save: false,
+      restore: false,
+      prompt: false
+    };
+
+    const response = await chrome.runtime.sendMessage({ action: 'testSiteRule', rule });
+    if (!response?.valid) {
+      alert(rule.patternType === 'regex' ? '正規表現の形式が正しくありません。' : 'マッチパターンの形式が正しくありません。');
+      return;
+    }
+
+    this.siteRules.push(rule);
+    patternInput.value = '';
+    this.saveSiteRules();
+  }
+
+  // Shows which rule applies to a URL and what it allows there
+  private async testSiteRules() {
+    const urlInput = document.getElementById('site-rule-test-url') as HTMLInputElement;
+    const resultEl = document.getElementById('site-rule-test-result');
+    const url = urlInput.value.trim();
+    if (!url || !resultEl) return;
+
+    try {
+      new URL(url);
+    } catch {
+      resultEl.textContent = 'URL の形式が正しくありません。';
+      return;
+    }
+
+    const response = await chrome.runtime.sendMessage({ action: 'getSiteAccess', url });
+    const access: SiteAccess = response.access;
+    const label = (allowed: boolean) => (allowed ? '有効' : '無効');
+    resultEl.textContent = `保存: ${label(access.save)} / 復元: ${label(access.restore)} / 保存の提案: ${label(access.prompt)}`;
+  }
+
+  private async saveUrlRules() {
+    try {
+      await chrome.runtime.sendMessage({ action: 'setSettings', settings: { urlRules: this.urlRules } });
+      this.renderUrlRules();
+    } catch (error) {
+      console.error('Failed to save URL rules:', error);
+      alert('設定の保存に失敗しました。');
+    }
+  }
+
+  private renderUrlRules() {
+    const rulesEl = document.getElementById('url-rules');
+    if (!rulesEl) return;
+
+    const queryLabels: { [mode in UrlRule['queryMode']]: string } = {
+      ignore: 'クエリを無視',
+      include: '区別するクエリ',
+      exclude: '無視するクエリ'
+    };
+
+    rulesEl.innerHTML = this.urlRules.map((rule, index) => `
+      <div class="policy-row">
+        <span class="site-rule-pattern">
+          ${this.escapeHtml(rule.pattern)}
+          ${rule.pathTemplates.length > 0 ? `<span class="url-rule-detail">${this.escapeHtml(rule.pathTemplates.join(', '))}</span>` : ''}
+        </span>
+        <span class="site-rule-type">${rule.patternType === 'regex' ? '正規表現' : 'マッチパターン'}</span>
+        <span class="site-rule-type">
+          ${queryLabels[rule.queryMode]}${rule.queryMode !== 'ignore' && rule.queryParams.length > 0 ? `: ${this.escapeHtml(rule.queryParams.join(', '))}` : ''}
+        </span>
+        <label class="site-rule-flag">
+          <input type="checkbox" class="url-rule-hash-checkbox" data-index="${index}" ${rule.hashRoutes ? 'checked' : ''}>
+          ハッシュルート
+        </label>
+        <button class="btn btn-sm btn-secondary move-url-rule-btn" data-index="${index}" data-offset="-1" ${index === 0 ? 'disabled' : ''} aria-label="上へ">↑</button>
+        <button class="btn btn-sm btn-secondary move-url-rule-btn" data-index="${index}" data-offset="1" ${index === this.urlRules.length - 1 ? 'disabled' : ''} aria-label="下へ">↓</button>
+        <button class="btn btn-sm btn-danger remove-url-rule-btn" data-index="${index}">削除</button>
+      </div>
+    `).join('');
+
+    rulesEl.querySelectorAll('.url-rule-hash-checkbox').forEach(checkbox => {
+      checkbox.addEventListener('change', (e) => {
+        const target = e.target as HTMLInputElement;
+        this.urlRules[Number(target.dataset.index)].hashRoutes = target.checked;
+        this.saveUrlRules();
+      });
+    });
+
+    rulesEl.querySelectorAll('.move-url-rule-btn').forEach(button => {
+      button.addEventListener('click', (e) => {
+        const target = e.currentTarget as HTMLElement;
+        const index = Number(target.dataset.index);
+        const newIndex = index + Number(target.dataset.offset);
+        const [rule] = this.urlRules.splice(index, 1);
+        this.urlRules.splice(newIndex, 0, rule);
+        this.saveUrlRules();
+      });
+    });
+
+    rulesEl.querySelectorAll('.remove-url-rule-btn').forEach(button => {
+      button.addEventListener('click', (e) => {
+        this.urlRules.splice(Number((e.currentTarget as HTMLElement).dataset.index), 1);
+        this.saveUrlRules();
+      });
+    });
+  }
+
+  private async addUrlRule() {
+    const patternInput = document.getElementById('url-rule-pattern') as HTMLInputElement;
+    const typeSelect = document.getElementById('url-rule-type') as HTMLSelectElement;
+    const templatesInput = document.getElementById('url-rule-templates') as HTMLInputElement;
+    const queryModeSelect = document.getElementById('url-rule-query-mode') as HTMLSelectElement;
+    const queryParamsInput = document.getElementById('url-rule-query-params') as HTMLInputElement;
+    const hashRoutesCheckbox = document.getElementById('url-rule-hash-routes') as HTMLInputElement;
+    const pattern = patternInput.value.trim();
+    if (!pattern) return;
+
+    const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+    const rule: UrlRule = {
+      pattern,
+      patternType: typeSelect.value as UrlRule['patternType'],
+      pathTemplates: splitList(templatesInput.value),
+      queryMode: queryModeSelect.value as UrlRule['queryMode'],
+      queryParams: splitList(queryParamsInput.value),
+      hashRoutes: hashRoutesCheckbox.checked
+    };
+
+    const errorMessages: { [error: string]: string } = {
+      'invalid-pattern': rule.patternType === 'regex' ? '正規表現の形式が正しくありません。' : 'マッチパターンの形式が正しくありません。',
+      'invalid-template': 'パステンプレートは / で始まり、:名前 のパラメータと末尾の * のみ使用できます。'
+    };
+
+    const response = await chrome.runtime.sendMessage({ action: 'testUrlRule', urlRule: rule });
+    if (!response?.valid) {
+      alert(errorMessages[response?.error] ?? 'ルールの形式が正しくありません。');
+      return;
+    }
+
+    this.urlRules.push(rule);
+    patternInput.value = '';
+    templatesInput.value = '';
+    queryParamsInput.value = '';
+    hashRoutesCheckbox.checked = false;
+    this.saveUrlRules();
+  }
+
+  // Shows the key a URL's data is saved under and which rule produced it
+  private async testUrlRules() {
+    const urlInput = document.getElementById('url-rule-test-url') as HTMLInputElement;
+    const resultEl = document.getElementById('url-rule-test-result');
+    const url = urlInput.value.trim();
+    if (!url || !resultEl) return;
+
+    try {
+      new URL(url);
+    } catch {
+      resultEl.textContent = 'URL の形式が正しくありません。';
+      return;
+    }
+
+    const response = await chrome.runtime.sendMessage({ action: 'getPageKey', url });
+    const ruleLabel = response.rule >= 0
+      ? `ルール ${response.rule + 1}（${this.urlRules[response.rule]?.pattern ?? ''}）`
+      : '一致するルールなし';
+    resultEl.textContent = `キー: ${response.key} / ${ruleLabel}`;
+  }
+
+  // Fills the inputs bound to a setting through `data-setting`; `data-scale` converts the stored
+  // value to the unit shown (e.g. milliseconds to seconds)
+  private renderSettings(settings: Settings) {
+    document.querySelectorAll<HTMLInputElement | HTMLSelectElement>('[data-setting]').forEach(input => {
+      const value = settings[input.dataset.setting as keyof Settings];
+      const scale = Number(input.dataset.scale || 1);
+      input.value = typeof value === 'number' ? String(value / scale) : String(value);
+    });
+  }
+
+  private async saveSetting(input: HTMLInputElement | HTMLSelectElement) {
+    const key = input.dataset.setting as keyof Settings;
+    const scale = Number(input.dataset.scale || 1);
+    const value = input.type === 'number' ? Math.round(Number(input.value) * scale) : input.value;
+
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'setSettings', settings: { [key]: value } });
+      // Values outside the allowed range come back clamped
+      if (response?.settings) {
+        this.renderSettings(response.settings);
+      }
+      console.log(`Setting ${key} updated`);
+    } catch (error) {
+      console.error('Failed to save setting:', error);
+      alert('設定の保存に失敗しました。');
+    }
+  }
+
+  private async saveSensitiveFields() {
+    try {
+      await chrome.runtime.sendMessage({ action: 'setSettings', settings: { sensitiveFields: this.sensitiveFields } });
+      this.renderSensitiveFields();
+    } catch (error) {
+      console.error('Failed to save sensitive field rules:', error);
+      alert('設定の保存に失敗しました。');
+    }
+  }
+
+  private renderSensitiveFields() {
+    const config = this.sensitiveFields;
+    if (!config) return;
+
+    const builtInToggle = document.getElementById('sensitive-built-in') as HTMLInputElement | null;
+    if (builtInToggle) {
+      builtInToggle.checked = config.builtInPatterns;
+    }
+
+    document.querySelectorAll<HTMLInputElement>('.sensitive-detector').forEach(checkbox => {
+      checkbox.checked = config.detectors[checkbox.dataset.detector as SensitiveDetector];
+    });
+
+    const rulesEl = document.getElementById('sensitive-rules');
+    if (!rulesEl) return;
+
+    const targetLabels = { name: '名前', type: 'type', autocomplete: 'autocomplete', value: '値' };
+    rulesEl.innerHTML = config.rules.map((rule, index) => `
+      <div class="policy-row">
+        <span class="site-rule-type">${rule.action === 'include' ? '保存する' : '保存しない'}</span>
+        <span class="site-rule-type">${targetLabels[rule.target]}</span>
+        <span class="site-rule-pattern">${this.escapeHtml(rule.pattern)}</span>
+        <button class="btn btn-sm btn-danger remove-sensitive-rule-btn" data-index="${index}">削除</button>
+      </div>
+    `).join('');
+
+    rulesEl.querySelectorAll('.remove-sensitive-rule-btn').forEach(button => {
+      button.addEventListener('click', (e) => {
+        config.rules.splice(Number((e.currentTarget as HTMLElement).dataset.index), 1);
+        this.saveSensitiveFields();
+      });
+    });
+  }
+
+  // Rule from the add row, or null (after telling the user) when its pattern is not a valid regex
+  private readSensitiveRuleInput(): SensitiveFieldRule | null {
+    const pattern = (document.getElementById('sensitive-rule-pattern') as HTMLInputElement).value.trim();
+    if (!pattern) return null;
+
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      alert('正規表現の形式が正しくありません。');
+      return null;
+    }
+
+    return {
+      action: (document.getElementById('sensitive-rule-action') as HTMLSelectElement).value as SensitiveFieldRule['action'],
+      target: (document.getElementById('sensitive-rule-target') as HTMLSelectElement).value as SensitiveFieldRule['target'],
+      pattern
+    };
+  }
+
+  private addSensitiveRule() {
+    const rule = this.readSensitiveRuleInput();
+    if (!rule || !this.sensitiveFields) return;
+
+    this.sensitiveFields.rules.push(rule);
+    (document.getElementById('sensitive-rule-pattern') as HTMLInputElement).value = '';
+    this.saveSensitiveFields();
+  }
+
+  // Lists the web pages open in other tabs as targets for a dry run
+  private async loadDryRunTabs() {
+    const select = document.getElementById('sensitive-dry-run-tab') as HTMLSelectElement | null;
+    if (!select) return;
+
+    const selected = select.value;
+    const tabs = (await chrome.tabs.query({})).filter(tab => tab.id !== undefined && /^https?:/.test(tab.url || ''));
+    select.innerHTML = tabs.length > 0
+      ? tabs.map(tab => `<option value="${tab.id}" ${String(tab.id) === selected ? 'selected' : ''}>${this.escapeHtml(tab.title || tab.url!)}</option>`).join('')
+      : '<option value="">確認できるタブがありません</option>';
+  }
+
+  // Shows which fields of an open page the current rules would drop, without saving anything.
+  // A rule typed into the add row but not added yet is included, so it can be tried first.
+  private async runSensitiveDryRun() {
+    const select = document.getElementById('sensitive-dry-run-tab') as HTMLSelectElement;
+    const resultEl = document.getElementById('sensitive-dry-run-result');
+    if (!select.value || !resultEl || !this.sensitiveFields) return;
+
+    const pendingInput = (document.getElementById('sensitive-rule-pattern') as HTMLInputElement).value.trim();
+    const pendingRule = pendingInput ? this.readSensitiveRuleInput() : null;
+    if (pendingInput && !pendingRule) return;
+
+    const config: SensitiveFieldConfig = {
+      ...this.sensitiveFields,
+      rules: pendingRule ? [...this.sensitiveFields.rules, pendingRule] : this.sensitiveFields.rules
+    };
+
+    let forms: { form: string; fields: DryRunField[] }[];
+    try {
+      const response = await chrome.tabs.sendMessage(Number(select.value), { action: 'sensitiveDryRun', config });
+      forms = response?.forms ?? [];
+    } catch (error) {
+      console.error('Failed to run dry run:', error);
+      resultEl.textContent = 'ページと通信できませんでした。ページを再読み込みしてから再度お試しください。';
+      return;
+    }
+
+    if (forms.length === 0) {
+      resultEl.textContent = 'このページにフォームの項目は見つかりませんでした。';
+      return;
+    }
+
+    resultEl.innerHTML = forms.map(({ form, fields }) => `
+      <div>
+        <div class="dry-run-form">${this.escapeHtml(form)}</div>
+        ${fields.map(field => `
+          <div class="dry-run-field ${field.dropped ? 'dry-run-dropped' : 'dry-run-kept'}">
+            <span class="break-all">${this.escapeHtml(field.field)}</span>
+            <span class="whitespace-nowrap">${this.escapeHtml(this.describeVerdict(field))}</span>
+          </div>
+        `).join('')}
+      </div>
+    `).join('');
+  }
+
+  private describeVerdict(field: DryRunField): string {
+    const detectorLabels: { [detector: string]: string } = {
+      cardNumber: 'カード番号',
+      iban: 'IBAN',
+      nationalId: 'マイナンバー / SSN',
+      phone: '電話番号',
+      email: 'メールアドレス'
+    };
+
+    switch (field.source) {
+      case 'password':
+        return '保存しない (パスワード)';
+      case 'rule':
+        return `${field.dropped ? '保存しない' : '保存する'} (ルール: ${field.detail})`;
+      case 'builtin':
+        return `保存しない (組み込み: ${field.detail})`;
+      case 'detector':
+        return `保存しない (${detectorLabels[field.detail!] ?? field.detail})`;
+      default:
+        return '保存する';
+    }
+  }
+
+  private async loadEncryptionStatus() {
+    try {
+      this.encryption = await chrome.runtime.sendMessage({ action: 'getEncryptionStatus' });
+    } catch (error) {
+      console.error('Failed to load encryption status:', error);
+    }
+    this.renderEncryption();
+  }
+
+  private renderEncryption() {
+    const statusEl = document.getElementById('encryption-status');
+    if (statusEl) {
+      statusEl.textContent = !this.encryption.enabled
+        ? '暗号化は無効です。'
+        : this.encryption.unlocked ? '暗号化は有効です (ロック解除中)。' : '🔒 暗号化は有効です (ロック中)。';
+    }
+
+    const confirmInput = document.getElementById('encryption-passphrase-confirm') as HTMLInputElement | null;
+    if (confirmInput) {
+      confirmInput.hidden = this.encryption.enabled;
+    }
+
+    const visibility: { [id: string]: boolean } = {
+      'encryption-enable': !this.encryption.enabled,
+      'encryption-unlock': this.encryption.enabled && !this.encryption.unlocked,
+      'encryption-lock': this.encryption.enabled && this.encryption.unlocked,
+      'encryption-disable': this.encryption.enabled
+    };
+    Object.entries(visibility).forEach(([id, visible]) => {
+      const button = document.getElementById(id);
+      if (button) {
+        button.hidden = !visible;
+      }
+    });
+  }
+
+  // Runs an encryption action with the entered passphrase, then reloads the list, whose
+  // values become readable or locked as a result
+  private async runEncryptionAction(action: string) {
+    const passphraseInput = document.getElementById('encryption-passphrase') as HTMLInputElement;
+    const confirmInput = document.getElementById('encryption-passphrase-confirm') as HTMLInputElement;
+    const passphrase = passphraseInput.value;
+
+    if (action !== 'lockEncryption') {
+      if (!passphrase) {
+        alert('パスフレーズを入力してください。');
+        return;
+      }
+      if (action === 'enableEncryption' && passphrase !== confirmInput.value) {
+        alert('確認用のパスフレーズが一致しません。');
+        return;
+      }
+    }
+
+    const errorMessages: { [error: string]: string } = {
+      'wrong-passphrase': 'パスフレーズが正しくありません。',
+      'already-enabled': '暗号化はすでに有効です。',
+      'not-enabled': '暗号化は有効になっていません。',
+      'undecryptable': '復号できないデータがあるため、暗号化を無効にできませんでした。'
+    };
+
+    try {
+      const response = await chrome.runtime.sendMessage({ action, passphrase });
+      if (!response?.success) {
+        const keys: string[] = response?.keys ?? [];
+        alert((errorMessages[response?.error] ?? '操作に失敗しました。') + (keys.length > 0 ? `\n\n${keys.join('\n')}` : ''));
+        return;
+      }
+      passphraseInput.value = '';
+      confirmInput.value = '';
+    } catch (error) {
+      console.error(`Failed to run ${action}:`, error);
+      alert('操作に失敗しました。');
+    }
+
+    await this.loadEncryptionStatus();
+    await this.loadFormData();
+    this.renderStats();
+    this.renderFormsList();
+    this.renderFieldHistory();
+    await this.loadProfiles();
+  }
+
+  private async loadProfiles() {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getProfiles' });
+      this.profiles = response?.profiles ?? [];
+    } catch (error) {
+      console.error('Failed to load profiles:', error);
+    }
+    this.renderProfiles();
+  }
+
+  private renderProfiles() {
+    const container = document.getElementById('profiles');
+    if (!container) return;
+
+    container.innerHTML = this.profiles.map((profile, index) => {
+      const locked = !!profile.encryptedData;
+      return `
+        <div class="profile-card" data-index="${index}">
+          <div class="profile-header">
+            <input type="text" class="policy-input profile-name" value="${this.escapeHtml(profile.name)}" placeholder="プロフィール名 (例: 勤務先)" aria-label="プロフィール名" ${locked ? 'disabled' : ''}>
+            <button class="btn btn-sm btn-secondary save-profile-btn" data-index="${index}" ${locked ? 'disabled' : ''}>保存</button>
+            <button class="btn btn-sm btn-danger delete-profile-btn" data-index="${index}">削除</button>
+          </div>
+          ${locked ? `
+            <p class="text-sm text-gray-600">🔒 暗号化されています。ロックを解除すると編集できます。</p>
+          ` : `
+            <div class="profile-fields">
+              ${PROFILE_FIELDS.map(([type, label]) => `
+                <label class="profile-field">
+                  ${label}
+                  <input type="text" class="policy-input profile-value" data-type="${type}" value="${this.escapeHtml(profile.values[type] ?? '')}">
+                </label>
+              `).join('')}
+            </div>
+          `}
+        </div>
+      `;
+    }).join('');
+
+    container.querySelectorAll<HTMLElement>('.save-profile-btn').forEach(button => {
+      button.addEventListener('click', () => this.saveProfile(Number(button.dataset.index)));
+    });
+    container.querySelectorAll<HTMLElement>('.delete-profile-btn').forEach(button => {
+      button.addEventListener('click', () => {
+        const profile = this.profiles[Number(button.dataset.index)];
+        this.showConfirmDialog(`プロフィール「${profile.name || '(名前なし)'}」を削除しますか？`, () => this.deleteProfile(profile.id));
+      });
+    });
+  }
+
+  private addProfile() {
+    this.profiles.push({ id: crypto.randomUUID(), name: '', values: {}, updatedAt: 0 });
+    this.renderProfiles();
+    const names = document.querySelectorAll<HTMLInputElement>('.profile-name');
+    names[names.length - 1]?.focus();
+  }
+
+  private async saveProfile(index: number) {
+    const card = document.querySelector(`.profile-card[data-index="${index}"]`);
+    if (!card) return;
+
+    const name = (card.querySelector('.profile-name') as HTMLInputElement).value.trim();
+    if (!name) {
+      alert('プロフィール名を入力してください。');
+      return;
+    }
+
+    const values: Profile['values'] = {};
+    card.querySelectorAll<HTMLInputElement>('.profile-value').forEach(input => {
+      values[input.dataset.type as SemanticFieldType] = input.value.trim();
+    });
+
+    const errorMessages: { [error: string]: string } = {
+      'locked': '保存データは暗号化されています。ロックを解除してから保存してください。'
+    };
+
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'saveProfile', profile: { ...this.profiles[index], name, values } });
+      if (!response?.success) {
+        alert(errorMessages[response?.error] ?? 'プロフィールの保存に失敗しました。');
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to save profile:', error);
+      alert('プロフィールの保存に失敗しました。');
+      return;
+    }
+    await this.loadProfiles();
+  }
+
+  private async deleteProfile(id: string) {
+    try {
+      await chrome.runtime.sendMessage({ action: 'deleteProfile', key: id });
+    } catch (error) {
+      console.error('Failed to delete profile:', error);
+      alert('プロフィールの削除に失敗しました。');
+    }
+    await this.loadProfiles();
+  }
+
+  // Lists the remembered values of every site and field, each with a button to forget it
+  private async renderFieldHistory() {
+    const container = document.getElementById('field-history');
+    if (!container) return;
+
+    let sites: { [origin: string]: { [fieldKey: string]: FieldHistoryValue[] } } = {};
+    let locked = false;
+    try {
+      ({ sites, locked } = await chrome.runtime.sendMessage({ action: 'getAllFieldHistory' }));
+    } catch (error) {
+      console.error('Failed to load field history:', error);
+    }
+
+    const origins = Object.keys(sites).sort();
+    const notes = [
+      locked ? '<p class="text-sm text-gray-600">🔒 暗号化された履歴は、ロックを解除すると表示されます。</p>' : '',
+      origins.length === 0 && !locked ? '<p class="text-sm text-gray-600">記録された入力履歴はありません。</p>' : ''
+    ].join('');
+
+    container.innerHTML = notes + origins.map(origin => `
+      <div>
+        <div class="field-history-site">${this.escapeHtml(origin)}</div>
+        ${Object.entries(sites[origin]).map(([fieldKey, values]) => `
+          <div class="policy-row">
+            <span class="policy-label">${this.escapeHtml(fieldKey)}</span>
+            <span class="field-history-values">
+              ${values.map(entry => `
+                <span class="field-history-value" title="${new Date(entry.usedAt).toLocaleString('ja-JP')}">
+                  <span>${this.escapeHtml(entry.value)}</span>
+                  <button
+                    class="delete-history-btn"
+                    data-origin="${this.escapeHtml(origin)}"
+                    data-field="${this.escapeHtml(fieldKey)}"
+                    data-value="${this.escapeHtml(entry.value)}"
+                    aria-label="履歴から削除"
+                  >×</button>
+                </span>
+              `).join('')}
+            </span>
+          </div>
+        `).join('')}
+      </div>
+    `).join('');
+
+    container.querySelectorAll<HTMLElement>('.delete-history-btn').forEach(button => {
+      button.addEventListener('click', async () => {
+        const { origin, field, value } = button.dataset;
+        try {
+          const response = await chrome.runtime.sendMessage({ action: 'deleteFieldHistory', url: origin, key: field, value });
+          if (!response?.success) {
+            alert('履歴の削除に失敗しました。');
+          }
+        } catch (error) {
+          console.error('Failed to delete field history:', error);
+          alert('履歴の削除に失敗しました。');
+        }
+        this.renderFieldHistory();
+      });
+    });
+  }
+
   private setupEventListeners() {
     // Search functionality
     const searchInput = document.getElementById('search-input') as HTMLInputElement;
@@ -38,10 +886,84 @@ class OptionsPage {
       this.filterFormData(query);
     });
 
+    // Draft mode toggle
+    const draftModeToggle = document.getElementById('draft-mode-toggle') as HTMLInputElement | null;
+    draftModeToggle?.addEventListener('change', () => this.setDraftMode(draftModeToggle.checked));
+
+    // Restore policy
+    const defaultPolicySelect = document.getElementById('restore-policy-default') as HTMLSelectElement | null;
+    defaultPolicySelect?.addEventListener('change', () => {
+      this.restorePolicies.default = defaultPolicySelect.value as RestorePolicy;
+      this.saveRestorePolicies();
+    });
+
+    const addSitePolicyBtn = document.getElementById('restore-policy-add');
+    addSitePolicyBtn?.addEventListener('click', () => this.addSitePolicy());
+
+    // Site rules
+    document.getElementById('site-rule-add')?.addEventListener('click', () => this.addSiteRule());
+    document.getElementById('site-rule-test')?.addEventListener('click', () => this.testSiteRules());
+
+    // URL rules
+    document.getElementById('url-rule-add')?.addEventListener('click', () => this.addUrlRule());
+    document.getElementById('url-rule-test')?.addEventListener('click', () => this.testUrlRules());
+
+    // Sensitive fields
+    const builtInToggle = document.getElementById('sensitive-built-in') as HTMLInputElement | null;
+    builtInToggle?.addEventListener('change', () => {
+      if (this.sensitiveFields) {
+        this.sensitiveFields.builtInPatterns = builtInToggle.checked;
+        this.saveSensitiveFields();
+      }
+    });
+
+    document.querySelectorAll<HTMLInputElement>('.sensitive-detector').forEach(checkbox => {
+      checkbox.addEventListener('change', () => {
+        if (this.sensitiveFields) {
+          this.sensitiveFields.detectors[checkbox.dataset.detector as SensitiveDetector] = checkbox.checked;
+          this.saveSensitiveFields();
+        }
+      });
+    });
+
+    document.getElementById('sensitive-rule-add')?.addEventListener('click', () => this.addSensitiveRule());
+    document.getElementById('sensitive-dry-run')?.addEventListener('click', () => this.runSensitiveDryRun());
+    document.getElementById('sensitive-dry-run-tab')?.addEventListener('focus', () => this.loadDryRunTabs());
+    this.loadDryRunTabs();
+
+    // Encryption
+    document.getElementById('encryption-enable')?.addEventListener('click', () => this.runEncryptionAction('enableEncryption'));
+    document.getElementById('encryption-unlock')?.addEventListener('click', () => this.runEncryptionAction('unlockEncryption'));
+    document.getElementById('encryption-lock')?.addEventListener('click', () => this.runEncryptionAction('lockEncryption'));
+    document.getElementById('encryption-disable')?.addEventListener('click', () => this.showConfirmDialog(
+      '暗号化を無効にすると、保存済みデータは暗号化されずに保存されます。続けますか？',
+      () => this.runEncryptionAction('disableEncryption')
+    ));
+
+    // Profiles
+    document.getElementById('profile-add')?.addEventListener('click', () => this.addProfile());
+
+    // Other settings
+    document.querySelectorAll<HTMLInputElement | HTMLSelectElement>('[data-setting]').forEach(input => {
+      input.addEventListener('change', () => this.saveSetting(input));
+    });
+
     // Export button
     const exportBtn = document.getElementById('export-btn');
     exportBtn?.addEventListener('click', () => this.exportData());
 
+    // Import button
+    const importFile = document.getElementById('import-file') as HTMLInputElement | null;
+    document.getElementById('import-btn')?.addEventListener('click', () => importFile?.click());
+    importFile?.addEventListener('change', () => {
+      const file = importFile.files?.[0];
+      // Reset so choosing the same file again fires another change
+      importFile.value = '';
+      if (file) {
+        this.importData(file);
+      }
+    });
+
     // Clear all button
     const clearAllBtn = document.getElementById('clear-all-btn');
     clearAllBtn?.addEventListener('click', () => this.showConfirmDialog(
@@ -60,7 +982,7 @@ class OptionsPage {
     } else {
       this.filteredData = {};
       for (const [key, data] of Object.entries(this.allFormData)) {
-        if (data.url.toLowerCase().includes(query)) {
+        if (data.url.toLowerCase().includes(query) || (data.snapshotName || '').toLowerCase().includes(query)) {
           this.filteredData[key] = data;
         }
       }
@@ -68,32 +990,76 @@ class OptionsPage {
     this.renderFormsList();
   }
 
+  private groupByForm(data: { [key: string]: StoredFormData }): FormGroup[] {
+    const groups = new Map<string, FormGroup>();
+
+    for (const [key, snapshot] of Object.entries(data)) {
+      const formKey = snapshot.formKey ?? key;
+      let group = groups.get(formKey);
+      if (!group) {
+        group = { formKey, url: snapshot.url, snapshots: [] };
+        groups.set(formKey, group);
+      }
+      group.snapshots.push([key, snapshot]);
+    }
+
+    for (const group of groups.values()) {
+      group.snapshots.sort((a, b) => b[1].timestamp - a[1].timestamp);
+      // Show the URL of the most recent save
+      group.url = group.snapshots[0][1].url;
+    }
+
+    // Sort by latest snapshot (newest first)
+    return Array.from(groups.values())
+      .sort((a, b) => b.snapshots[0][1].timestamp - a.snapshots[0][1].timestamp);
+  }
+
   private renderStats() {
-    const totalForms = Object.keys(this.allFormData).length;
+    const totalForms = this.groupByForm(this.allFormData).length;
     const totalFormsEl = document.getElementById('total-forms');
     if (totalFormsEl) {
       totalFormsEl.textContent = totalForms.toString();
     }
 
-    // Calculate storage usage (approximate)
-    const dataSize = JSON.stringify(this.allFormData).length;
-    const maxSize = 102400; // 100KB limit for chrome.storage.sync
-    const usagePercent = Math.round((dataSize / maxSize) * 100);
+    this.renderStorageUsage();
+  }
+
+  // Shows the bytes the browser reports in use, against the sync quota
+  private async renderStorageUsage() {
+    let usage: StorageUsage;
+    try {
+      usage = await chrome.runtime.sendMessage({ action: 'getStorageUsage' });
+    } catch (error) {
+      console.error('Failed to load storage usage:', error);
+      return;
+    }
+
+    const usagePercent = Math.round((usage.sync.bytesInUse / usage.sync.quotaBytes) * 100);
     
     const storageUsedEl = document.getElementById('storage-used');
     if (storageUsedEl) {
       storageUsedEl.textContent = usagePercent.toString();
       storageUsedEl.className = `stat-number ${usagePercent > 80 ? 'text-red-600' : 'text-blue-600'}`;
     }
+
+    const detailEl = document.getElementById('storage-detail');
+    if (detailEl) {
+      detailEl.textContent = `同期 ${this.formatBytes(usage.sync.bytesInUse)} / ${this.formatBytes(usage.sync.quotaBytes)}` +
+        ` (${usage.sync.items} / ${usage.sync.maxItems} 件)・この端末 ${this.formatBytes(usage.local.bytesInUse)}`;
+    }
+  }
+
+  private formatBytes(bytes: number): string {
+    return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
   }
 
   private renderFormsList() {
     const formsListEl = document.getElementById('forms-list');
     if (!formsListEl) return;
 
-    const entries = Object.entries(this.filteredData);
+    const groups = this.groupByForm(this.filteredData);
     
-    if (entries.length === 0) {
+    if (groups.length === 0) {
       formsListEl.innerHTML = `
         <div class="empty-state">
           <div class="empty-state-icon">📝</div>
@@ -106,26 +1072,60 @@ class OptionsPage {
       return;
     }
 
-    // Sort by timestamp (newest first)
-    entries.sort((a, b) => b[1].timestamp - a[1].timestamp);
-
-    const formsHtml = entries.map(([key, data]) => {
-      const url = new URL(data.url);
+    const formsHtml = groups.map(group => {
+      const url = new URL(group.url);
       const domain = url.hostname;
-      const timestamp = new Date(data.timestamp).toLocaleString('ja-JP');
-      
-      const fieldsHtml = Object.entries(data.data)
-        .slice(0, 3) // Show only first 3 fields
-        .map(([fieldName, value]) => `
-          <div class="field-item">
-            <span class="field-name">${this.escapeHtml(fieldName)}</span>
-            <span class="field-value">${this.escapeHtml(this.formatValue(value))}</span>
-          </div>
-        `).join('');
+      const timestamp = new Date(group.snapshots[0][1].timestamp).toLocaleString('ja-JP');
+
+      const snapshotsHtml = group.snapshots.map(([key, data]) => {
+        const fieldsHtml = data.encryptedData ? `
+            <div class="field-item">
+              <span class="field-name text-gray-400">🔒 暗号化されています。ロックを解除すると表示されます。</span>
+            </div>
+          ` : Object.entries(data.data)
+          .slice(0, 3) // Show only first 3 fields
+          .map(([fieldName, value]) => `
+            <div class="field-item">
+              <span class="field-name">${this.escapeHtml(fieldName)}</span>
+              <span class="field-value">${this.escapeHtml(this.formatValue(value))}</span>
+            </div>
+          `).join('');
 
-      const moreFieldsCount = Object.keys(data.data).length - 3;
-      const moreFieldsHtml = moreFieldsCount > 0 ? 
-        `<div class="field-item"><span class="field-name text-gray-400">...他 ${moreFieldsCount} 項目</span></div>` : '';
+        const moreFieldsCount = Object.keys(data.data).length - 3;
+        const moreFieldsHtml = moreFieldsCount > 0 ? 
+          `<div class="field-item"><span class="field-name text-gray-400">...他 ${moreFieldsCount} 項目</span></div>` : '';
+
+        return `
+          <div class="snapshot-item">
+            <div class="snapshot-header">
+              <label class="snapshot-select">
+                <input type="checkbox" class="select-snapshot" data-key="${this.escapeHtml(key)}" ${this.selectedKeys.has(key) ? 'checked' : ''}>
+                <span class="snapshot-name">${this.escapeHtml(data.snapshotName || 'デフォルト')}</span>
+              </label>
+              ${data.pinned ? '<span class="pinned-badge" title="固定済み (自動整理で削除されません)">📌</span>' : ''}
+              <span class="form-timestamp">
+                ${new Date(data.timestamp).toLocaleString('ja-JP')}
+                <span class="storage-area">${this.storageAreas[key] === 'sync' ? '同期' : 'この端末'}</span>
+              </span>
+            </div>
+            <div class="form-fields">
+              ${fieldsHtml}
+              ${moreFieldsHtml}
+            </div>
+            <div class="form-actions">
+              <button class="btn btn-sm btn-secondary view-form-btn" data-key="${this.escapeHtml(key)}">
+                詳細を見る
+              </button>
+              <button class="btn btn-sm btn-secondary pin-form-btn" data-key="${this.escapeHtml(key)}">
+                ${data.pinned ? '固定を解除' : '固定する'}
+              </button>
+              <button class="btn btn-sm btn-danger delete-form-btn" data-key="${this.escapeHtml(key)}">
+                削除
+              </button>
+            </div>
+          </div>
+        `;
+      }).join('');
 
       return `
         <div class="form-item">
@@ -136,18 +1136,18 @@ class OptionsPage {
             </div>
             <div class="form-timestamp">${timestamp}</div>
           </div>
-          <div class="form-fields">
-            ${fieldsHtml}
-            ${moreFieldsHtml}
+          <div class="snapshot-list">
+            ${snapshotsHtml}
           </div>
+          ${group.snapshots.length > 1 ? `
           <div class="form-actions">
-            <button class="btn btn-sm btn-secondary view-form-btn" data-key="${key}">
-              詳細を見る
+            <button class="btn btn-sm btn-secondary compare-group-btn" data-form-key="${this.escapeHtml(group.formKey)}">
+              スナップショットを比較
             </button>
-            <button class="btn btn-sm btn-danger delete-form-btn" data-key="${key}">
-              削除
+            <button class="btn btn-sm btn-danger delete-group-btn" data-form-key="${this.escapeHtml(group.formKey)}">
+              全スナップショットを削除 (${group.snapshots.length})
             </button>
-          </div>
+          </div>` : ''}
         </div>
       `;
     }).join('');
@@ -168,6 +1168,16 @@ class OptionsPage {
       });
     });
 
+    // Pin buttons
+    document.querySelectorAll('.pin-form-btn').forEach(button => {
+      button.addEventListener('click', (e) => {
+        const key = (e.currentTarget as HTMLElement).getAttribute('data-key');
+        if (key) {
+          this.togglePinned(key);
+        }
+      });
+    });
+
     // Delete form buttons
     const deleteButtons = document.querySelectorAll('.delete-form-btn');
     deleteButtons.forEach(button => {
@@ -178,13 +1188,126 @@ class OptionsPage {
         }
       });
     });
+
+    // Selection for export
+    document.querySelectorAll<HTMLInputElement>('.select-snapshot').forEach(checkbox => {
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          this.selectedKeys.add(checkbox.dataset.key!);
+        } else {
+          this.selectedKeys.delete(checkbox.dataset.key!);
+        }
+      });
+    });
+
+    // Compare two snapshots of a form
+    const compareGroupButtons = document.querySelectorAll('.compare-group-btn');
+    compareGroupButtons.forEach(button => {
+      button.addEventListener('click', (e) => {
+        const formKey = (e.currentTarget as HTMLElement).getAttribute('data-form-key');
+        if (formKey) {
+          this.showSnapshotDiff(formKey);
+        }
+      });
+    });
+
+    // Delete all snapshots of a form
+    const deleteGroupButtons = document.querySelectorAll('.delete-group-btn');
+    deleteGroupButtons.forEach(button => {
+      button.addEventListener('click', (e) => {
+        const formKey = (e.currentTarget as HTMLElement).getAttribute('data-form-key');
+        if (formKey) {
+          this.deleteFormGroup(formKey);
+        }
+      });
+    });
+  }
+
+  // Pinned entries are never removed by the automatic cleanup
+  private async togglePinned(key: string) {
+    const data = this.allFormData[key];
+    if (!data) return;
+
+    const pinned = !data.pinned;
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'setPinned', key, pinned });
+      if (!response?.success) {
+        throw new Error('Entry not found');
+      }
+      data.pinned = pinned;
+      this.renderFormsList();
+    } catch (error) {
+      console.error('Failed to update pin:', error);
+      alert('固定の変更に失敗しました。');
+    }
+  }
+
+  // Lists entries the automatic cleanup removed recently, which can still be put back
+  private async renderEvictedEntries() {
+    const container = document.getElementById('evicted-entries');
+    if (!container) return;
+
+    let evicted: EvictedEntry[] = [];
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getEvictedEntries' });
+      evicted = response?.data ?? [];
+    } catch (error) {
+      console.error('Failed to load evicted entries:', error);
+    }
+
+    container.hidden = evicted.length === 0;
+    if (evicted.length === 0) {
+      container.innerHTML = '';
+      return;
+    }
+
+    container.innerHTML = `
+      <p>容量の自動整理で ${evicted.length} 件の保存データが削除されました。削除から 1 時間以内なら元に戻せます。</p>
+      <ul>
+        ${evicted.map(entry => `
+          <li>
+            ${this.escapeHtml(entry.url)}
+            (${this.escapeHtml(entry.snapshotName || 'デフォルト')}) ・ ${new Date(entry.evictedAt).toLocaleString('ja-JP')}
+          </li>
+        `).join('')}
+      </ul>
+      <button class="btn btn-sm btn-secondary restore-evicted-btn">すべて元に戻す</button>
+    `;
+
+    container.querySelector('.restore-evicted-btn')?.addEventListener('click', async () => {
+      try {
+        await chrome.runtime.sendMessage({ action: 'restoreEvicted' });
+        await this.loadFormData();
+        this.renderStats();
+        this.renderFormsList();
+        this.renderEvictedEntries();
+      } catch (error) {
+        console.error('Failed to restore evicted entries:', error);
+        alert('元に戻せませんでした。');
+      }
+    });
   }
 
-  private formatValue(value: string | boolean): string {
+  private formatValue(value: FormFieldValue): string {
     if (typeof value === 'boolean') {
       return value ? 'チェック済み' : 'チェックなし';
     }
-    return value.length > 50 ? value.substring(0, 50) + '...' : value;
+    const text = this.getPlainValue(value);
+    return text.length > 50 ? text.substring(0, 50) + '...' : text;
+  }
+
+  private getPlainValue(value: FormFieldValue): string {
+    if (typeof value === 'boolean') {
+      return String(value);
+    }
+    if (Array.isArray(value)) {
+      return value.join(', ');
+    }
+    if (typeof value === 'object') {
+      // Rich text is shown as its plain text, typed inputs as their raw value
+      return value.kind === 'typed' ? value.value : value.text;
+    }
+    return value;
   }
 
   private escapeHtml(text: string): string {
@@ -215,6 +1338,32 @@ class OptionsPage {
     );
   }
 
+  public async deleteFormGroup(formKey: string) {
+    this.showConfirmDialog(
+      'このフォームの全スナップショットを削除しますか？',
+      async () => {
+        try {
+          await chrome.runtime.sendMessage({
+            action: 'deleteFormSnapshots',
+            key: formKey
+          });
+          for (const [key, data] of Object.entries(this.allFormData)) {
+            if ((data.formKey ?? key) === formKey) {
+              delete this.allFormData[key];
+              delete this.filteredData[key];
+            }
+          }
+          this.renderStats();
+          this.renderFormsList();
+          console.log(`Deleted all snapshots of form: ${formKey}`);
+        } catch (error) {
+          console.error('Failed to delete form snapshots:', error);
+          alert('削除に失敗しました。');
+        }
+      }
+    );
+  }
+
   public viewForm(key: string) {
     const data = this.allFormData[key];
     if (!data) return;
@@ -235,6 +1384,15 @@ class OptionsPage {
             <p class="text-sm text-gray-600 mb-2">URL:</p>
             <p class="break-all">${this.escapeHtml(data.url)}</p>
           </div>
+          ${data.fingerprint?.scopePath ? `
+          <div class="mb-4">
+            <p class="text-sm text-gray-600 mb-2">フレーム / Shadow DOM:</p>
+            <p class="break-all">${this.escapeHtml(data.fingerprint.scopePath)}</p>
+          </div>` : ''}
+          <div class="mb-4">
+            <p class="text-sm text-gray-600 mb-2">スナップショット:</p>
+            <p>${this.escapeHtml(data.snapshotName || 'デフォルト')}</p>
+          </div>
           <div class="mb-4">
             <p class="text-sm text-gray-600 mb-2">保存日時:</p>
             <p>${new Date(data.timestamp).toLocaleString('ja-JP')}</p>
@@ -246,6 +1404,9 @@ class OptionsPage {
             </div>
           </div>
           <div class="modal-actions">
+            <button class="btn btn-primary compare-page-btn">
+              開いているページと比較
+            </button>
             <button class="btn btn-secondary close-modal-btn">
               閉じる
             </button>
@@ -255,6 +1416,9 @@ class OptionsPage {
     `;
 
     document.body.insertAdjacentHTML('beforeend', modalHtml);
+
+    const comparePageBtn = document.querySelector('#view-form-modal .compare-page-btn');
+    comparePageBtn?.addEventListener('click', () => this.compareWithOpenPage(key));
     
     // Add event listener for close button
     const closeBtn = document.querySelector('#view-form-modal .close-modal-btn');
@@ -276,6 +1440,223 @@ class OptionsPage {
     modal?.remove();
   }
 
+  // Asks the content script of a tab showing the snapshot's page to display the diff against
+  // the live form, where the user can restore selected fields
+  private async compareWithOpenPage(key: string) {
+    const data = this.allFormData[key];
+    if (!data) return;
+
+    // A tab shows the snapshot's page when the page key of its URL starts the snapshot's form key,
+    // so URL rules that keep query parameters or hash routes are followed
+    const formKey = data.formKey ?? key;
+    const tabs = (await chrome.tabs.query({})).filter(candidate =>
+      candidate.url && /^https?:/.test(candidate.url) && candidate.id !== undefined
+    );
+    let tab: chrome.tabs.Tab | undefined;
+    for (const candidate of tabs) {
+      try {
+        const response = await chrome.runtime.sendMessage({ action: 'getPageKey', url: candidate.url });
+        if (response?.key && formKey.startsWith(`${response.key}_form_`)) {
+          tab = candidate;
+          break;
+        }
+      } catch (error) {
+        console.error('Failed to get page key:', error);
+      }
+    }
+
+    if (!tab) {
+      alert('このフォームのページを開いているタブがありません。ページを開いてから再度お試しください。');
+      return;
+    }
+
+    const errorMessages: { [error: string]: string } = {
+      'no-form': 'ページ上に対応するフォームが見つかりません。',
+      'no-changes': '保存済みデータとページの入力内容に差分はありません。',
+      'locked': '保存済みデータは暗号化されています。ロックを解除してから再度お試しください。',
+      'busy': 'ページで別の確認画面が表示されています。'
+    };
+
+    try {
+      const response = await chrome.tabs.sendMessage(tab.id!, { action: 'showFormDiff', key });
+      if (!response?.success) {
+        alert(errorMessages[response?.error] ?? '差分を表示できませんでした。');
+        return;
+      }
+      await chrome.tabs.update(tab.id!, { active: true });
+      await chrome.windows.update(tab.windowId, { focused: true });
+      this.closeViewModal();
+    } catch (error) {
+      console.error('Failed to show form diff:', error);
+      alert('ページと通信できませんでした。ページを再読み込みしてから再度お試しください。');
+    }
+  }
+
+  public showSnapshotDiff(formKey: string) {
+    const group = this.groupByForm(this.allFormData).find(candidate => candidate.formKey === formKey);
+    if (!group || group.snapshots.length < 2) return;
+
+    const optionsHtml = (selectedIndex: number) => group.snapshots.map(([key, data], index) => `
+      <option value="${this.escapeHtml(key)}" ${index === selectedIndex ? 'selected' : ''}>
+        ${this.escapeHtml(data.snapshotName || 'デフォルト')} (${new Date(data.timestamp).toLocaleString('ja-JP')})
+      </option>
+    `).join('');
+
+    const modalHtml = `
+      <div class="modal-overlay" id="snapshot-diff-modal">
+        <div class="modal max-w-2xl">
+          <h3>スナップショットの比較</h3>
+          <div class="diff-selectors">
+            <label>
+              <span class="text-sm text-gray-600">比較元</span>
+              <select id="diff-source" class="policy-select w-full">${optionsHtml(0)}</select>
+            </label>
+            <label>
+              <span class="text-sm text-gray-600">適用先</span>
+              <select id="diff-target" class="policy-select w-full">${optionsHtml(1)}</select>
+            </label>
+          </div>
+          <div id="diff-list" class="diff-list"></div>
+          <div class="modal-actions">
+            <button class="btn btn-primary apply-diff-btn">
+              選択した項目を適用先に反映
+            </button>
+            <button class="btn btn-secondary close-modal-btn">
+              閉じる
+            </button>
+          </div>
+        </div>
+      </div>
+    `;
+
+    document.body.insertAdjacentHTML('beforeend', modalHtml);
+
+    const modal = document.getElementById('snapshot-diff-modal')!;
+    const sourceSelect = document.getElementById('diff-source') as HTMLSelectElement;
+    const targetSelect = document.getElementById('diff-target') as HTMLSelectElement;
+    const render = () => this.renderSnapshotDiff(sourceSelect.value, targetSelect.value);
+
+    sourceSelect.addEventListener('change', render);
+    targetSelect.addEventListener('change', render);
+    render();
+
+    modal.querySelector('.apply-diff-btn')?.addEventListener('click', () => {
+      const fields = Array.from(modal.querySelectorAll('.diff-field-checkbox:checked'))
+        .map(checkbox => (checkbox as HTMLInputElement).value);
+      this.applySnapshotDiff(sourceSelect.value, targetSelect.value, fields);
+    });
+
+    modal.querySelector('.close-modal-btn')?.addEventListener('click', () => modal.remove());
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) {
+        modal.remove();
+      }
+    });
+  }
+
+  private renderSnapshotDiff(sourceKey: string, targetKey: string) {
+    const listEl = document.getElementById('diff-list');
+    const applyBtn = document.querySelector('#snapshot-diff-modal .apply-diff-btn') as HTMLButtonElement | null;
+    if (!listEl) return;
+
+    const source = this.allFormData[sourceKey].data;
+    const target = this.allFormData[targetKey].data;
+    const changes = sourceKey === targetKey ? [] : this.diffSnapshots(source, target);
+    if (applyBtn) {
+      applyBtn.disabled = changes.length === 0;
+    }
+
+    if (changes.length === 0) {
+      listEl.innerHTML = '<div class="diff-empty">差分はありません。</div>';
+      return;
+    }
+
+    const statusLabels = { added: '追加', removed: '削除', changed: '変更' };
+    listEl.innerHTML = changes.map(change => `
+      <label class="diff-item">
+        <input type="checkbox" class="diff-field-checkbox" value="${this.escapeHtml(change.field)}" ${change.status === 'removed' ? '' : 'checked'}>
+        <span class="diff-status diff-status-${change.status}">${statusLabels[change.status]}</span>
+        <span class="diff-field">
+          <span class="field-name">${this.escapeHtml(change.field)}</span>
+          <span class="diff-values">
+            <span class="diff-value-old">${this.escapeHtml(target.hasOwnProperty(change.field) ? this.formatValue(target[change.field]) : '(なし)')}</span>
+            →
+            <span class="diff-value-new">${this.escapeHtml(source.hasOwnProperty(change.field) ? this.formatValue(source[change.field]) : '(なし)')}</span>
+          </span>
+        </span>
+      </label>
+    `).join('');
+  }
+
+  // Fields that differ between two snapshots, as changes applying the source makes to the target
+  private diffSnapshots(source: FormData, target: FormData): SnapshotChange[] {
+    const fields = Array.from(new Set([...Object.keys(target), ...Object.keys(source)]));
+    const changes: SnapshotChange[] = [];
+
+    fields.forEach(field => {
+      if (!target.hasOwnProperty(field)) {
+        changes.push({ field, status: 'added' });
+      } else if (!source.hasOwnProperty(field)) {
+        changes.push({ field, status: 'removed' });
+      } else if (JSON.stringify(source[field]) !== JSON.stringify(target[field])) {
+        changes.push({ field, status: 'changed' });
+      }
+    });
+
+    return changes;
+  }
+
+  // Copies the selected fields of the source snapshot into the target snapshot
+  private async applySnapshotDiff(sourceKey: string, targetKey: string, fields: string[]) {
+    const source = this.allFormData[sourceKey];
+    const target = this.allFormData[targetKey];
+    if (!source || !target || fields.length === 0) return;
+
+    const data = { ...target.data };
+    const locators = { ...target.locators };
+    fields.forEach(field => {
+      if (source.data.hasOwnProperty(field)) {
+        data[field] = source.data[field];
+        if (source.locators?.[field]) {
+          locators[field] = source.locators[field];
+        }
+      } else {
+        delete data[field];
+        delete locators[field];
+      }
+    });
+
+    const updated: StoredFormData = { ...target, data, locators, timestamp: Date.now() };
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'saveFormData',
+        key: target.formKey ?? targetKey,
+        data: updated
+      });
+      // Saving while encryption is locked fails in the background, which answers with an error
+      if (!response?.success) {
+        console.error('Failed to apply snapshot diff:', response?.error);
+        alert(this.encryption.enabled && !this.encryption.unlocked
+          ? '保存データは暗号化されています。ロックを解除してから保存してください。'
+          : '保存に失敗しました。');
+        return;
+      }
+      this.allFormData[targetKey] = updated;
+      if (this.filteredData[targetKey]) {
+        this.filteredData[targetKey] = updated;
+      }
+      this.renderStats();
+      this.renderFormsList();
+      this.renderSnapshotDiff(sourceKey, targetKey);
+      this.renderEvictedEntries();
+      console.log(`Applied ${fields.length} fields from ${sourceKey} to ${targetKey}`);
+    } catch (error) {
+      console.error('Failed to apply snapshot diff:', error);
+      alert('保存に失敗しました。');
+    }
+  }
+
   private async clearAllData() {
     try {
       await chrome.runtime.sendMessage({ action: 'clearAllData' });
@@ -283,6 +1664,7 @@ class OptionsPage {
       this.filteredData = {};
       this.renderStats();
       this.renderFormsList();
+      this.renderFieldHistory();
       console.log('All form data cleared');
     } catch (error) {
       console.error('Failed to clear all data:', error);
@@ -291,19 +1673,233 @@ class OptionsPage {
   }
 
   private exportData() {
-    const dataStr = JSON.stringify(this.allFormData, null, 2);
-    const blob = new Blob([dataStr], { type: 'application/json' });
+    if (!this.encryption.enabled) {
+      this.downloadExport();
+      return;
+    }
+
+    this.showConfirmDialog(
+      this.encryption.unlocked
+        ? 'エクスポートしたファイルは暗号化されません。続けますか？'
+        : 'ロック中のデータは暗号化されたままエクスポートされます。続けますか？',
+      () => this.downloadExport()
+    );
+  }
+
+  // Storage keys of the entries the chosen export scope covers
+  private getExportKeys(): string[] {
+    const scope = (document.getElementById('export-scope') as HTMLSelectElement | null)?.value;
+    switch (scope) {
+      case 'filtered':
+        return Object.keys(this.filteredData);
+      case 'selected':
+        return Array.from(this.selectedKeys);
+      default:
+        return Object.keys(this.allFormData);
+    }
+  }
+
+  private async downloadExport() {
+    const keys = this.getExportKeys();
+    if (keys.length === 0) {
+      alert('エクスポートする項目がありません。');
+      return;
+    }
+
+    const format = (document.getElementById('export-format') as HTMLSelectElement | null)?.value;
+    const date = new Date().toISOString().split('T')[0];
+
+    try {
+      const envelope: ExportEnvelope = await chrome.runtime.sendMessage({ action: 'exportFormData', keys });
+      if (format === 'csv') {
+        // The BOM lets spreadsheet applications detect UTF-8
+        this.downloadFile('\uFEFF' + this.toCsv(envelope), `form-memory-export-${date}.csv`, 'text/csv');
+      } else {
+        this.downloadFile(JSON.stringify(envelope, null, 2), `form-memory-export-${date}.json`, 'application/json');
+      }
+    } catch (error) {
+      console.error('Failed to export form data:', error);
+      alert('エクスポートに失敗しました。');
+    }
+  }
+
+  // One row per saved field, for reviewing saved data in a spreadsheet. Locked entries have no
+  // readable fields and are left out.
+  private toCsv(envelope: ExportEnvelope): string {
+    const rows = [['url', 'form_key', 'snapshot', 'field', 'value', 'timestamp']];
+    for (const [key, entry] of Object.entries(envelope.entries)) {
+      for (const [field, value] of Object.entries(entry.data)) {
+        rows.push([
+          entry.url,
+          entry.formKey ?? key,
+          entry.snapshotName ?? '',
+          field,
+          this.getPlainValue(value),
+          new Date(entry.timestamp).toISOString()
+        ]);
+      }
+    }
+    return rows.map(row => row.map(cell => this.escapeCsv(cell)).join(',')).join('\r\n');
+  }
+
+  private escapeCsv(cell: string): string {
+    // Values starting like a formula are prefixed so spreadsheets show them as text
+    if (/^[=+\-@\t\r]/.test(cell)) {
+      cell = `'${cell}`;
+    }
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }
+
+  private downloadFile(content: string, filename: string, type: string) {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     
     const a = document.createElement('a');
     a.href = url;
-    a.download = `form-memory-export-${new Date().toISOString().split('T')[0]}.json`;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   }
 
+  // Reads an exported backup and lets the background check it before anything is written
+  private async importData(file: File) {
+    let content: unknown;
+    try {
+      content = JSON.parse(await file.text());
+    } catch (error) {
+      console.error('Failed to parse import file:', error);
+      alert('ファイルを読み込めませんでした。エクスポートした JSON ファイルを選択してください。');
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'previewImport', content });
+      if (response?.error) {
+        alert(this.getImportErrorMessage(response.error));
+        return;
+      }
+      const previews: ImportPreviewEntry[] = response?.entries ?? [];
+      if (previews.length === 0) {
+        alert('インポートできるデータがありません。');
+        return;
+      }
+      this.showImportPreview(content, previews);
+    } catch (error) {
+      console.error('Failed to preview import:', error);
+      alert('インポートに失敗しました。');
+    }
+  }
+
+  private getImportErrorMessage(error: string): string {
+    const messages: { [error: string]: string } = {
+      'malformed-file': 'ファイルの形式が正しくありません。エクスポートした JSON ファイルを選択してください。',
+      'unsupported-version': 'このファイルは新しいバージョンの拡張機能でエクスポートされています。拡張機能を更新してから再度お試しください。',
+      'count-mismatch': 'ファイルの件数が一致しません。ファイルが破損しているか、編集されている可能性があります。',
+      'locked': '保存済みデータは暗号化されています。ロックを解除してから再度お試しください。'
+    };
+    return messages[error] ?? 'インポートに失敗しました。';
+  }
+
+  private showImportPreview(content: unknown, previews: ImportPreviewEntry[]) {
+    const statusLabels = { new: '追加', conflict: '重複', invalid: '無効' };
+    const statusClasses = { new: 'added', conflict: 'changed', invalid: 'removed' };
+    const errorLabels = { malformed: '形式が正しくありません', encrypted: '暗号化されています', 'invalid-key': '保存先のキーが正しくありません' };
+    const strategyOptions = `
+      <option value="newer">新しい方を残す</option>
+      <option value="existing">既存を残す</option>
+      <option value="both">両方を残す</option>
+    `;
+    const formatTime = (timestamp?: number) => timestamp ? new Date(timestamp).toLocaleString('ja-JP') : '';
+    const conflicts = previews.filter(preview => preview.status === 'conflict').length;
+    const importable = previews.filter(preview => preview.status !== 'invalid').length;
+
+    const itemsHtml = previews.map(preview => `
+      <div class="import-item">
+        <span class="diff-status diff-status-${statusClasses[preview.status]}">${statusLabels[preview.status]}</span>
+        <span class="diff-field">
+          <span class="field-name">${this.escapeHtml(preview.url ?? preview.key)}</span>
+          <span class="diff-values">
+            ${preview.status === 'invalid'
+              ? errorLabels[preview.error!]
+              : `${this.escapeHtml(preview.snapshotName || 'デフォルト')} · ${preview.fieldCount} 項目 · ${formatTime(preview.timestamp)}`}
+            ${preview.status === 'conflict' ? `<br>既存: ${formatTime(preview.existingTimestamp)}` : ''}
+          </span>
+        </span>
+        ${preview.status === 'conflict' ? `
+        <select class="import-strategy" data-key="${this.escapeHtml(preview.key)}">${strategyOptions}</select>` : ''}
+      </div>
+    `).join('');
+
+    const modalHtml = `
+      <div class="modal-overlay" id="import-modal">
+        <div class="modal max-w-2xl">
+          <h3>データのインポート</h3>
+          <p class="text-sm text-gray-600 mb-4">
+            ${previews.length} 件中 ${importable} 件をインポートできます (既存のデータと重複: ${conflicts} 件)。
+          </p>
+          ${conflicts > 1 ? `
+          <div class="policy-row mb-4">
+            <span class="policy-label">重複をまとめて</span>
+            <select id="import-strategy-all" class="import-strategy">${strategyOptions}</select>
+          </div>` : ''}
+          <div class="diff-list">${itemsHtml}</div>
+          <div class="modal-actions">
+            <button class="btn btn-primary import-confirm-btn" ${importable === 0 ? 'disabled' : ''}>
+              インポート
+            </button>
+            <button class="btn btn-secondary close-modal-btn">
+              キャンセル
+            </button>
+          </div>
+        </div>
+      </div>
+    `;
+
+    document.body.insertAdjacentHTML('beforeend', modalHtml);
+
+    const modal = document.getElementById('import-modal')!;
+    const strategySelects = Array.from(modal.querySelectorAll<HTMLSelectElement>('.import-strategy[data-key]'));
+    const allSelect = document.getElementById('import-strategy-all') as HTMLSelectElement | null;
+    allSelect?.addEventListener('change', () => {
+      strategySelects.forEach(select => select.value = allSelect.value);
+    });
+
+    modal.querySelector('.import-confirm-btn')?.addEventListener('click', async () => {
+      const strategies: { [key: string]: ImportStrategy } = {};
+      strategySelects.forEach(select => strategies[select.dataset.key!] = select.value as ImportStrategy);
+      modal.remove();
+      await this.runImport(content, strategies);
+    });
+
+    modal.querySelector('.close-modal-btn')?.addEventListener('click', () => modal.remove());
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) {
+        modal.remove();
+      }
+    });
+  }
+
+  private async runImport(content: unknown, strategies: { [key: string]: ImportStrategy }) {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'importFormData', content, strategies });
+      if (!response?.success) {
+        alert(this.getImportErrorMessage(response?.error));
+        return;
+      }
+
+      alert(`${response.imported} 件をインポートしました${response.skipped > 0 ? ` (${response.skipped} 件はスキップ)` : ''}。`);
+      await this.loadFormData();
+      this.renderStats();
+      this.renderFormsList();
+      this.renderEvictedEntries();
+    } catch (error) {
+      console.error('Failed to import form data:', error);
+      alert('インポートに失敗しました。');
+    }
+  }
+
   private showConfirmDialog(message: string, onConfirm: () => void) {
     const messageEl = document.getElementById('confirm-message');
     const dialogEl = document.getElementById('confirm-dialog');
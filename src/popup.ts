@@ -0,0 +1,287 @@
+import type { Profile, SiteAccess, StoredFormData } from './types';
+
+// Toolbar popup for the active tab. Saving and restoring go through the tab's content script;
+// listing, deleting and pausing go through the background, so they also work on paused sites.
+class PopupPage {
+  private tab: chrome.tabs.Tab | null = null;
+  private pageKey = '';
+  private snapshots: [string, StoredFormData][] = [];
+  private paused = false;
+  // Deleting takes a second click, as a popup cannot show a confirm dialog reliably
+  private confirmingClear = false;
+
+  constructor() {
+    this.init();
+  }
+
+  private async init() {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    this.tab = tab ?? null;
+    this.setupEventListeners();
+
+    if (!this.tab?.url || !/^https?:/.test(this.tab.url)) {
+      this.showStatus('このページでは Form Memory を使用できません。');
+      this.setPageControlsEnabled(false);
+      this.renderSnapshots();
+      return;
+    }
+
+    const url = new URL(this.tab.url);
+    this.pageKey = `${url.origin}${url.pathname}`;
+    try {
+      // The page's URL rule may keep query parameters or a hash route in its key
+      const response = await chrome.runtime.sendMessage({ action: 'getPageKey', url: this.tab.url });
+      this.pageKey = response?.key ?? this.pageKey;
+    } catch (error) {
+      console.error('Failed to get page key:', error);
+    }
+    const pageEl = document.getElementById('popup-page');
+    if (pageEl) {
+      pageEl.textContent = url.hostname + url.pathname;
+      pageEl.title = this.tab.url;
+    }
+
+    await this.loadSnapshots();
+    await this.loadSiteState();
+    await this.loadProfiles();
+  }
+
+  private async loadProfiles() {
+    let profiles: Profile[] = [];
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getProfiles' });
+      profiles = response?.profiles ?? [];
+    } catch (error) {
+      console.error('Failed to load profiles:', error);
+    }
+
+    const section = document.getElementById('popup-profile-section');
+    const select = document.getElementById('popup-profile') as HTMLSelectElement | null;
+    if (!section || !select) return;
+
+    section.hidden = profiles.length === 0;
+    select.innerHTML = profiles.map(profile => `
+      <option value="${this.escapeHtml(profile.id)}">${profile.encryptedData ? '🔒 ' : ''}${this.escapeHtml(profile.name)}</option>
+    `).join('');
+  }
+
+  private async loadSnapshots() {
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'getPageFormData', key: this.pageKey });
+      this.snapshots = Object.entries((response?.data ?? {}) as { [key: string]: StoredFormData })
+        .sort((a, b) => b[1].timestamp - a[1].timestamp);
+    } catch (error) {
+      console.error('Failed to load page form data:', error);
+      this.snapshots = [];
+    }
+    this.renderSnapshots();
+  }
+
+  private async loadSiteState() {
+    try {
+      const [pause, { access }]: [{ paused: boolean }, { access: SiteAccess }] = await Promise.all([
+        chrome.runtime.sendMessage({ action: 'getSitePause', url: this.tab!.url }),
+        chrome.runtime.sendMessage({ action: 'getSiteAccess', url: this.tab!.url })
+      ]);
+      this.paused = pause.paused;
+      this.renderSiteState(access);
+    } catch (error) {
+      console.error('Failed to load site state:', error);
+    }
+  }
+
+  private renderSiteState(access: SiteAccess) {
+    const pauseBtn = document.getElementById('popup-pause');
+    if (pauseBtn) {
+      pauseBtn.textContent = this.paused ? 'このサイトで再開' : 'このサイトで停止';
+    }
+
+    if (this.paused) {
+      this.showStatus('このサイトでは Form Memory を停止しています。');
+    } else if (!access.save && !access.restore) {
+      this.showStatus('サイトごとのルールにより、このページでは保存と復元が無効です。');
+    } else {
+      this.showStatus('');
+    }
+
+    (document.getElementById('popup-save') as HTMLButtonElement).disabled = !access.save;
+    document.querySelectorAll<HTMLButtonElement>('.popup-restore-btn').forEach(button => {
+      button.disabled = button.disabled || !access.restore;
+    });
+  }
+
+  private renderSnapshots() {
+    const listEl = document.getElementById('popup-snapshots');
+    if (!listEl) return;
+
+    if (this.snapshots.length === 0) {
+      listEl.innerHTML = '<div class="popup-empty">保存データはありません。</div>';
+      return;
+    }
+
+    listEl.innerHTML = this.snapshots.map(([key, data]) => `
+      <div class="popup-snapshot">
+        <div class="popup-snapshot-info">
+          <span class="snapshot-name">${data.pinned ? '📌 ' : ''}${this.escapeHtml(data.snapshotName || 'デフォルト')}</span>
+          <span class="popup-snapshot-meta">
+            ${new Date(data.timestamp).toLocaleString('ja-JP')}
+            ・ ${data.encryptedData ? '🔒 ロック中' : `${Object.keys(data.data).length} 項目`}
+          </span>
+        </div>
+        <button
+          class="btn btn-sm btn-secondary popup-restore-btn"
+          data-key="${this.escapeHtml(key)}"
+          ${data.encryptedData || this.paused ? 'disabled' : ''}
+        >
+          復元
+        </button>
+      </div>
+    `).join('');
+
+    listEl.querySelectorAll<HTMLButtonElement>('.popup-restore-btn').forEach(button => {
+      button.addEventListener('click', () => this.restoreSnapshot(button.dataset.key!));
+    });
+  }
+
+  private setupEventListeners() {
+    document.getElementById('popup-save')?.addEventListener('click', () => this.saveNow());
+    document.getElementById('popup-snapshot-name')?.addEventListener('keydown', (e) => {
+      if ((e as KeyboardEvent).key === 'Enter') {
+        this.saveNow();
+      }
+    });
+    document.getElementById('popup-fill-profile')?.addEventListener('click', () => this.fillProfile());
+    document.getElementById('popup-pause')?.addEventListener('click', () => this.togglePause());
+    document.getElementById('popup-clear')?.addEventListener('click', () => this.clearPageData());
+    document.getElementById('popup-options')?.addEventListener('click', () => chrome.runtime.openOptionsPage());
+  }
+
+  private async saveNow() {
+    const nameInput = document.getElementById('popup-snapshot-name') as HTMLInputElement;
+    const errorMessages: { [error: string]: string } = {
+      'no-data': '保存できる入力内容がありません。',
+      'blocked': 'サイトごとのルールにより、このページでは保存できません。'
+    };
+
+    const response = await this.sendToTab({ action: 'savePageForms', snapshotName: nameInput.value.trim() || undefined });
+    if (!response?.success) {
+      this.showStatus(errorMessages[response?.error] ?? '保存に失敗しました。');
+      return;
+    }
+
+    nameInput.value = '';
+    this.showStatus(`${response.saved} 件のフォームを保存しました。`);
+    await this.loadSnapshots();
+  }
+
+  private async restoreSnapshot(key: string) {
+    const errorMessages: { [error: string]: string } = {
+      'no-form': 'ページ上に対応するフォームが見つかりません。',
+      'not-found': '保存データが見つかりません。',
+      'locked': '保存データは暗号化されています。オプション画面でロックを解除してください。',
+      'blocked': 'サイトごとのルールにより、このページでは復元できません。'
+    };
+
+    const response = await this.sendToTab({ action: 'restoreSnapshot', key });
+    if (!response?.success) {
+      this.showStatus(errorMessages[response?.error] ?? '復元に失敗しました。');
+      return;
+    }
+    window.close();
+  }
+
+  private async fillProfile() {
+    const select = document.getElementById('popup-profile') as HTMLSelectElement;
+    if (!select.value) return;
+
+    const errorMessages: { [error: string]: string } = {
+      'no-match': 'プロフィールで入力できる項目が見つかりません。',
+      'not-found': 'プロフィールが見つかりません。',
+      'locked': 'プロフィールは暗号化されています。オプション画面でロックを解除してください。',
+      'blocked': 'サイトごとのルールにより、このページでは入力できません。'
+    };
+
+    const response = await this.sendToTab({ action: 'fillProfile', profileId: select.value });
+    if (!response?.success) {
+      this.showStatus(errorMessages[response?.error] ?? '入力に失敗しました。');
+      return;
+    }
+    window.close();
+  }
+
+  private async togglePause() {
+    if (!this.tab?.url) return;
+
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'toggleSitePause', url: this.tab.url });
+      // The page's content script picks up the changed site rules from the settings broadcast,
+      // so the tab is not reloaded and nothing typed into it is lost
+      this.paused = response?.paused ?? this.paused;
+      await this.loadSiteState();
+      this.renderSnapshots();
+    } catch (error) {
+      console.error('Failed to toggle site pause:', error);
+      this.showStatus('設定の変更に失敗しました。');
+    }
+  }
+
+  private async clearPageData() {
+    const clearBtn = document.getElementById('popup-clear');
+    if (!this.confirmingClear) {
+      this.confirmingClear = true;
+      if (clearBtn) {
+        clearBtn.textContent = 'もう一度押すと削除します';
+      }
+      return;
+    }
+
+    this.confirmingClear = false;
+    if (clearBtn) {
+      clearBtn.textContent = 'このページのデータを削除';
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({ action: 'deletePageFormData', key: this.pageKey });
+      this.showStatus(`${response?.deleted ?? 0} 件の保存データを削除しました。`);
+      await this.loadSnapshots();
+    } catch (error) {
+      console.error('Failed to delete page form data:', error);
+      this.showStatus('削除に失敗しました。');
+    }
+  }
+
+  // Tabs opened before the extension was installed or reloaded have no content script to answer
+  private async sendToTab(message: object): Promise<any> {
+    try {
+      return await chrome.tabs.sendMessage(this.tab!.id!, message);
+    } catch (error) {
+      console.error('Failed to reach the page:', error);
+      return { success: false, error: 'unreachable' };
+    }
+  }
+
+  private setPageControlsEnabled(enabled: boolean) {
+    ['popup-save', 'popup-pause', 'popup-clear', 'popup-snapshot-name', 'popup-fill-profile'].forEach(id => {
+      const element = document.getElementById(id) as HTMLButtonElement | HTMLInputElement | null;
+      if (element) {
+        element.disabled = !enabled;
+      }
+    });
+  }
+
+  private showStatus(message: string) {
+    const statusEl = document.getElementById('popup-status');
+    if (statusEl) {
+      statusEl.textContent = message;
+      statusEl.hidden = message === '';
+    }
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
+
+new PopupPage();
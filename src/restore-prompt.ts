@@ -0,0 +1,216 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { panelStyles } from './ui-styles';
+
+// How restoring would affect a field: 'added' fills an empty field, 'changed' replaces a value
+// and 'removed' clears a field the saved data has no value for
+export type ChangeStatus = 'added' | 'removed' | 'changed';
+
+// A field whose value on the page differs from the saved one
+export interface FieldChange {
+  field: string;
+  status: ChangeStatus;
+  current: string;
+  saved: string;
+}
+
+const STATUS_LABELS: { [status in ChangeStatus]: string } = {
+  added: '追加',
+  removed: '削除',
+  changed: '変更'
+};
+
+@customElement('form-memory-restore-prompt')
+export class FormMemoryRestorePrompt extends LitElement {
+  @property({ type: String })
+  formLabel = '';
+
+  @property({ attribute: false })
+  changes: FieldChange[] = [];
+
+  @state()
+  private isClosing = false;
+
+  // Fields the user chose to restore; clearing a field is opt-in
+  @state()
+  private selected = new Set<string>();
+
+  static styles = [panelStyles, css`
+    .panel {
+      max-width: 360px;
+    }
+
+    .changes {
+      max-height: 240px;
+      overflow-y: auto;
+      margin-bottom: 12px;
+      border-top: 1px solid #e1e5e9;
+    }
+
+    .change {
+      padding: 6px 0;
+      border-bottom: 1px solid #e1e5e9;
+      font-size: 12px;
+    }
+
+    .change-field {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      font-weight: 500;
+      color: #333;
+      margin-bottom: 2px;
+      overflow-wrap: anywhere;
+      cursor: pointer;
+    }
+
+    .status {
+      flex: none;
+      padding: 0 4px;
+      border-radius: 3px;
+      font-size: 10px;
+      font-weight: 500;
+    }
+
+    .status-added {
+      background: #d4edda;
+      color: #155724;
+    }
+
+    .status-changed {
+      background: #fff3cd;
+      color: #856404;
+    }
+
+    .status-removed {
+      background: #f8d7da;
+      color: #721c24;
+    }
+
+    .change-values {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 2px 8px;
+      color: #6c757d;
+    }
+
+    .change-values .value {
+      overflow-wrap: anywhere;
+    }
+
+    .change-values .saved {
+      color: #155724;
+    }
+
+    .empty {
+      font-style: italic;
+    }
+  `];
+
+  willUpdate(changed: Map<string, unknown>) {
+    if (changed.has('changes')) {
+      this.selected = new Set(this.changes.filter(change => change.status !== 'removed').map(change => change.field));
+    }
+  }
+
+  render() {
+    return html`
+      <div
+        class="panel ${this.isClosing ? 'closing' : ''}"
+        role="dialog"
+        aria-labelledby="form-memory-restore-message"
+        @keydown="${this.handleKeydown}"
+      >
+        <button class="close-btn" aria-label="閉じる" @click="${this.handleCancel}">×</button>
+        <div class="message" id="form-memory-restore-message">
+          保存済みデータとの差分 (${this.changes.length} 項目)
+        </div>
+        ${this.formLabel ? html`<div class="form-label" title="${this.formLabel}">${this.formLabel}</div>` : ''}
+        <div class="changes">
+          ${this.changes.map(change => html`
+            <div class="change">
+              <label class="change-field">
+                <input
+                  type="checkbox"
+                  .checked="${this.selected.has(change.field)}"
+                  @change="${(e: Event) => this.toggleField(change.field, (e.target as HTMLInputElement).checked)}"
+                >
+                <span class="status status-${change.status}">${STATUS_LABELS[change.status]}</span>
+                <span>${change.field}</span>
+              </label>
+              <div class="change-values">
+                <span>現在</span>
+                <span class="value ${change.current ? '' : 'empty'}">${change.current || '(空)'}</span>
+                <span>保存済み</span>
+                <span class="value saved ${change.saved ? '' : 'empty'}">${change.saved || '(空)'}</span>
+              </div>
+            </div>
+          `)}
+        </div>
+        <div class="buttons">
+          <button class="btn btn-primary" ?disabled="${this.selected.size === 0}" @click="${this.handleConfirm}">
+            選択した ${this.selected.size} 項目を復元
+          </button>
+          <button class="btn btn-secondary" @click="${this.handleCancel}">
+            復元しない
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  private handleKeydown(e: KeyboardEvent) {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.handleCancel();
+    }
+  }
+
+  private toggleField(field: string, checked: boolean) {
+    const selected = new Set(this.selected);
+    if (checked) {
+      selected.add(field);
+    } else {
+      selected.delete(field);
+    }
+    this.selected = selected;
+  }
+
+  private handleConfirm() {
+    this.dispatchEvent(new CustomEvent('restore-confirm', { detail: { fields: Array.from(this.selected) } }));
+    this.close();
+  }
+
+  private handleCancel() {
+    this.dispatchEvent(new CustomEvent('restore-cancel'));
+    this.close();
+  }
+
+  private close() {
+    if (this.isClosing) {
+      return;
+    }
+
+    this.isClosing = true;
+    setTimeout(() => this.remove(), 200);
+  }
+}
+
+// Shows the diff and resolves with the fields the user chose to restore, or null when declined
+export function showRestorePrompt(formLabel: string, changes: FieldChange[]): Promise<string[] | null> {
+  const prompt = new FormMemoryRestorePrompt();
+  prompt.formLabel = formLabel;
+  prompt.changes = changes;
+
+  return new Promise(resolve => {
+    prompt.addEventListener('restore-confirm', (e) => resolve((e as CustomEvent<{ fields: string[] }>).detail.fields));
+    prompt.addEventListener('restore-cancel', () => resolve(null));
+    document.body.appendChild(prompt);
+  });
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'form-memory-restore-prompt': FormMemoryRestorePrompt;
+  }
+}
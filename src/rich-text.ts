@@ -0,0 +1,129 @@
+import type { RichTextValue } from './types';
+
+// Formatting that survives a save; everything else is unwrapped to its text
+const ALLOWED_TAGS = new Set([
+  'a', 'b', 'blockquote', 'br', 'code', 'del', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'i', 'li', 'ol', 'p', 'pre', 's', 'span', 'strong', 'sub', 'sup', 'u', 'ul'
+]);
+
+// Elements whose content must never be kept, not even as text
+const DROPPED_TAGS = new Set(['script', 'style', 'template', 'iframe', 'object', 'embed', 'noscript']);
+
+const SAFE_URL_PATTERN = /^(https?:|mailto:)/i;
+
+export function isRichTextValue(value: unknown): value is RichTextValue {
+  return !!value && typeof value === 'object' && (value as RichTextValue).kind === 'richtext';
+}
+
+export function isPlainTextEditor(element: HTMLElement): boolean {
+  return element.getAttribute('contenteditable') === 'plaintext-only';
+}
+
+export function captureRichText(element: HTMLElement): RichTextValue {
+  return {
+    kind: 'richtext',
+    html: isPlainTextEditor(element) ? '' : sanitizeHtml(element.innerHTML),
+    text: (element.innerText ?? element.textContent ?? '').trim()
+  };
+}
+
+// Writes saved content into a contenteditable region. Editors such as ProseMirror, Quill or
+// Draft.js keep their own document model and only pick up changes that arrive as editing
+// input, so the content is inserted through execCommand (which fires beforeinput/input) with
+// a direct DOM write plus synthetic events as the fallback.
+export function restoreRichText(element: HTMLElement, value: RichTextValue) {
+  const plainText = isPlainTextEditor(element) || !value.html;
+  const html = plainText ? '' : sanitizeHtml(value.html);
+  // The element may live in a same-origin frame, whose document handles its editing commands
+  const doc = element.ownerDocument;
+  const previousFocus = doc.activeElement as HTMLElement | null;
+
+  // Editing commands need focus, but the page must not scroll to each restored editor
+  element.focus({ preventScroll: true });
+  const selection = doc.getSelection();
+  if (selection) {
+    const range = doc.createRange();
+    range.selectNodeContents(element);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+
+  const beforeInput = new InputEvent('beforeinput', {
+    bubbles: true,
+    cancelable: true,
+    inputType: 'insertReplacementText',
+    data: value.text
+  });
+
+  let inserted = false;
+  if (element.dispatchEvent(beforeInput)) {
+    inserted = plainText
+      ? doc.execCommand('insertText', false, value.text)
+      : doc.execCommand('insertHTML', false, html);
+  }
+
+  if (!inserted) {
+    if (plainText) {
+      element.textContent = value.text;
+    } else {
+      element.innerHTML = html;
+    }
+    element.dispatchEvent(new InputEvent('input', {
+      bubbles: true,
+      inputType: 'insertReplacementText',
+      data: value.text
+    }));
+  }
+
+  element.dispatchEvent(new Event('change', { bubbles: true }));
+
+  // Restoring on page load should not move the user's focus. <body> is what is active when
+  // nothing is focused, and focusing it would leave the editor focused.
+  if (previousFocus && previousFocus !== element && previousFocus !== doc.body) {
+    previousFocus.focus({ preventScroll: true });
+  } else {
+    element.blur();
+  }
+}
+
+export function sanitizeHtml(html: string): string {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  sanitizeChildren(template.content);
+  return template.innerHTML;
+}
+
+function sanitizeChildren(parent: Node) {
+  Array.from(parent.childNodes).forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return;
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      node.parentNode?.removeChild(node);
+      return;
+    }
+
+    const element = node as Element;
+    const tagName = element.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tagName)) {
+      element.remove();
+      return;
+    }
+
+    sanitizeChildren(element);
+
+    if (!ALLOWED_TAGS.has(tagName)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      return;
+    }
+
+    Array.from(element.attributes).forEach(attribute => {
+      const keepHref = tagName === 'a' && attribute.name === 'href' && SAFE_URL_PATTERN.test(attribute.value.trim());
+      if (!keepHref) {
+        element.removeAttribute(attribute.name);
+      }
+    });
+  });
+}
@@ -0,0 +1,96 @@
+import type { FieldLocator, SemanticFieldType } from './types';
+import type { FieldDescription } from './sensitive-fields';
+
+// Autocomplete tokens naming what a field asks for, with the type a profile stores them under
+const AUTOCOMPLETE_TYPES: { [token: string]: SemanticFieldType } = {
+  'name': 'name',
+  'given-name': 'given-name',
+  'family-name': 'family-name',
+  'email': 'email',
+  'tel': 'tel',
+  'tel-national': 'tel',
+  'organization': 'organization',
+  'organization-title': 'organization-title',
+  'postal-code': 'postal-code',
+  'country': 'country',
+  'country-name': 'country',
+  'address-level1': 'address-level1',
+  'address-level2': 'address-level2',
+  'street-address': 'address-line1',
+  'address-line1': 'address-line1',
+  'address-line2': 'address-line2',
+  'username': 'username',
+  'url': 'url',
+  'bday': 'bday'
+};
+
+const INPUT_TYPES: { [type: string]: SemanticFieldType } = {
+  email: 'email',
+  tel: 'tel',
+  url: 'url'
+};
+
+// Patterns for names, ids and labels, tried in order: the more specific types come before the
+// broader ones they overlap with (company name before name, address line 2 before address)
+const TEXT_PATTERNS: [SemanticFieldType, RegExp][] = [
+  ['email', /e ?mail|メール/],
+  ['username', /user ?name|user ?id|login|ユーザー?名|ユーザー? ?id|ログイン/],
+  ['organization-title', /job ?title|役職/],
+  ['organization', /company|organi[sz]ation|corporation|会社|企業|法人|団体|組織/],
+  ['postal-code', /zip|postal|post ?code|郵便番号|〒/],
+  ['tel', /phone|mobile|\btel\b|電話|携帯/],
+  ['bday', /birth|bday|\bdob\b|生年月日|誕生日/],
+  ['url', /website|homepage|\burl\b|ホームページ|ウェブサイト/],
+  ['address-level1', /\bstate\b|province|prefecture|都道府県/],
+  ['address-level2', /\bcity\b|\btown\b|市区町村/],
+  ['address-line2', /address ?(line)? ?2|\baddr ?2\b|建物|マンション|部屋番号/],
+  ['address-line1', /address|street|\baddr\b|住所|番地/],
+  ['country', /country|国名/],
+  ['given-name', /first ?name|given ?name|\bfname\b|\bmei\b|^名$/],
+  ['family-name', /last ?name|family ?name|surname|\blname\b|\bsei\b|^姓$/],
+  ['name', /full ?name|your ?name|^name$|氏名|お名前|名前/]
+];
+
+// Infers what a field asks for from its autocomplete token, its input type, then its name, id
+// and labels. Returns null for fields no profile value fits.
+export function inferSemanticType(field: FieldDescription, locator: FieldLocator): SemanticFieldType | null {
+  // Only the last token names the field; the ones before it are sections like "shipping"
+  const tokens = field.autocomplete.trim().toLowerCase().split(/\s+/);
+  const token = tokens[tokens.length - 1];
+  if (token && AUTOCOMPLETE_TYPES[token]) {
+    return AUTOCOMPLETE_TYPES[token];
+  }
+
+  if (INPUT_TYPES[field.type]) {
+    return INPUT_TYPES[field.type];
+  }
+
+  // Attribute values first, as labels are free text that mentions other things more often
+  const candidates = [
+    [field.name, locator.id],
+    [locator.label, locator.ariaLabel, locator.placeholder]
+  ];
+  for (const texts of candidates) {
+    for (const text of texts) {
+      const normalized = normalizeIdentifier(text);
+      const match = normalized && TEXT_PATTERNS.find(([, pattern]) => pattern.test(normalized));
+      if (match) {
+        return match[0];
+      }
+    }
+  }
+
+  return null;
+}
+
+// Splits camelCase, trailing numbers and separators so `billingFirstName`, `billing_first_name`
+// and `tel1` read as words
+function normalizeIdentifier(text: string | undefined): string {
+  return (text || '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/([a-zA-Z])(\d)/g, '$1 $2')
+    .replace(/[_\-[\].:]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
@@ -0,0 +1,212 @@
+import type { SensitiveDetector, SensitiveFieldConfig, SensitiveFieldRule } from './types';
+
+// What is known about a field when deciding whether it may be stored. Saved data has only the
+// name and value; live fields also carry their type, autocomplete token and element.
+export interface FieldDescription {
+  name: string;
+  type: string;
+  autocomplete: string;
+  value: string;
+  element?: Element;
+}
+
+export interface SensitiveVerdict {
+  dropped: boolean;
+  // What decided the verdict: a user rule, a built-in pattern or detector, or nothing at all
+  source: 'password' | 'rule' | 'builtin' | 'detector' | 'none';
+  // The matching rule's pattern, the built-in pattern or the detector's name
+  detail?: string;
+}
+
+// Used when the settings cannot be loaded; the background owns the actual defaults
+export const FALLBACK_SENSITIVE_CONFIG: SensitiveFieldConfig = {
+  builtInPatterns: true,
+  detectors: { cardNumber: true, iban: true, nationalId: true, phone: false, email: false },
+  rules: []
+};
+
+// Field names of security-related fields that are never worth storing
+const BUILT_IN_NAME_PATTERNS = [
+  // CSRF tokens
+  /csrf/i,
+  /xsrf/i,
+  /_token$/i,
+  /authenticity_token/i,
+
+  // Session and security tokens
+  /session/i,
+  /nonce/i,
+  /security_token/i,
+  /verification_token/i,
+
+  // API keys and secrets
+  /api_key/i,
+  /secret/i,
+  /private_key/i,
+
+  // Passwords (additional patterns)
+  /password/i,
+  /passwd/i,
+  /pwd/i,
+
+  // One-time codes
+  /otp/i,
+  /verification_code/i,
+  /auth_code/i,
+  /captcha/i,
+
+  // Hidden fields that are likely security-related
+  /^__/  // Fields starting with double underscore
+];
+
+// Autocomplete tokens of payment and credential fields
+const BUILT_IN_AUTOCOMPLETE_PATTERN = /^(cc-number|cc-csc|cc-exp|cc-exp-month|cc-exp-year|one-time-code|current-password|new-password)$/i;
+
+const SECURITY_DATA_ATTRIBUTES = ['csrf', 'token', 'security', 'auth'];
+
+const DETECTORS: { [detector in SensitiveDetector]: (value: string) => boolean } = {
+  cardNumber: isCardNumber,
+  iban: isIban,
+  nationalId: isNationalId,
+  phone: value => /^\+?[\d\s().-]+$/.test(value) && countDigits(value) >= 10 && countDigits(value) <= 15,
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+};
+
+export function classifySensitiveField(field: FieldDescription, config: SensitiveFieldConfig): SensitiveVerdict {
+  // Passwords are never stored, whatever the rules say
+  if (field.type === 'password') {
+    return { dropped: true, source: 'password' };
+  }
+
+  const userRules = config.rules.filter(rule => matchesRule(rule, field));
+  const include = userRules.find(rule => rule.action === 'include');
+  if (include) {
+    return { dropped: false, source: 'rule', detail: include.pattern };
+  }
+  const exclude = userRules.find(rule => rule.action === 'exclude');
+  if (exclude) {
+    return { dropped: true, source: 'rule', detail: exclude.pattern };
+  }
+
+  if (config.builtInPatterns) {
+    const builtIn = getBuiltInMatch(field);
+    if (builtIn) {
+      return { dropped: true, source: 'builtin', detail: builtIn };
+    }
+  }
+
+  const value = field.value.trim();
+  if (value !== '') {
+    const detector = (Object.keys(DETECTORS) as SensitiveDetector[])
+      .find(name => config.detectors[name] && DETECTORS[name](value));
+    if (detector) {
+      return { dropped: true, source: 'detector', detail: detector };
+    }
+  }
+
+  return { dropped: false, source: 'none' };
+}
+
+function matchesRule(rule: SensitiveFieldRule, field: FieldDescription): boolean {
+  try {
+    return new RegExp(rule.pattern, 'i').test(field[rule.target]);
+  } catch {
+    // Rules are validated when they are added, so this only happens with hand-edited storage
+    return false;
+  }
+}
+
+function getBuiltInMatch(field: FieldDescription): string | null {
+  const namePattern = BUILT_IN_NAME_PATTERNS.find(pattern => pattern.test(field.name));
+  if (namePattern) {
+    return namePattern.source;
+  }
+
+  if (BUILT_IN_AUTOCOMPLETE_PATTERN.test(field.autocomplete)) {
+    return `autocomplete=${field.autocomplete}`;
+  }
+
+  // Skip hidden fields with token-like values (long random strings)
+  if (field.type === 'hidden' && field.value.length > 20 && /^[a-zA-Z0-9+/=_-]+$/.test(field.value)) {
+    return 'hidden token';
+  }
+
+  // Check data attributes that might indicate security fields
+  const securityAttr = field.element && SECURITY_DATA_ATTRIBUTES.find(attr =>
+    field.element!.hasAttribute(`data-${attr}`) ||
+    field.element!.getAttribute('data-purpose')?.includes(attr)
+  );
+  if (securityAttr) {
+    return `data-${securityAttr}`;
+  }
+
+  return null;
+}
+
+function countDigits(value: string): number {
+  return value.replace(/\D/g, '').length;
+}
+
+// Payment card numbers: 13-19 digits, optionally grouped, passing the Luhn checksum
+function isCardNumber(value: string): boolean {
+  if (!/^[\d\s-]+$/.test(value)) {
+    return false;
+  }
+
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// IBANs: country code, check digits and account number, passing the ISO 7064 mod-97 check
+function isIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// US social security numbers and Japanese My Number (12 digits with a check digit)
+function isNationalId(value: string): boolean {
+  if (/^\d{3}-\d{2}-\d{4}$/.test(value)) {
+    return true;
+  }
+
+  const digits = value.replace(/[\s-]/g, '');
+  if (!/^\d{12}$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let n = 1; n <= 11; n++) {
+    const digit = Number(digits[11 - n]);
+    sum += digit * (n <= 6 ? n + 1 : n - 5);
+  }
+  const remainder = sum % 11;
+  const checkDigit = remainder <= 1 ? 0 : 11 - remainder;
+  return checkDigit === Number(digits[11]);
+}
@@ -0,0 +1,232 @@
+import type { StorageAreaName, StorageUsage, StoredFormData } from './types';
+
+// Entries too large for one sync item are stored as a header under their own key plus
+// numbered items holding consecutive slices of the serialized entry
+const CHUNK_KEY_SEPARATOR = '#chunk:';
+
+// Documented sync limits, for browsers that do not expose them
+const DEFAULT_SYNC_QUOTA_BYTES = 102400;
+const DEFAULT_SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+const DEFAULT_SYNC_MAX_ITEMS = 512;
+const DEFAULT_LOCAL_QUOTA_BYTES = 10485760;
+
+interface ChunkHeader {
+  chunkCount: number;
+}
+
+// A saved entry together with where it is stored
+export interface EntryRecord {
+  entry: StoredFormData;
+  area: StorageAreaName;
+  // Number of chunk items; 0 when the entry is a single item
+  chunkCount: number;
+}
+
+export function isStoredFormData(value: any): value is StoredFormData {
+  return value &&
+         typeof value === 'object' &&
+         'url' in value &&
+         'data' in value &&
+         'timestamp' in value;
+}
+
+function isChunkHeader(value: any): value is ChunkHeader {
+  return !!value && typeof value === 'object' && typeof value.chunkCount === 'number' && !('data' in value);
+}
+
+function getChunkKey(key: string, index: number): string {
+  return `${key}${CHUNK_KEY_SEPARATOR}${index}`;
+}
+
+// Size chrome.storage counts for an item: its key plus the JSON of its value, in UTF-8 bytes
+function getItemBytes(key: string, value: unknown): number {
+  return new TextEncoder().encode(key + JSON.stringify(value)).length;
+}
+
+// Every saved entry in both areas, chunked entries reassembled. An entry present in both areas
+// is the one saved last; the stale copy is left for the next write or removal to clean up.
+export async function readAllEntries(): Promise<Map<string, EntryRecord>> {
+  const records = new Map<string, EntryRecord>();
+
+  for (const area of ['local', 'sync'] as StorageAreaName[]) {
+    const items = await chrome.storage[area].get();
+    for (const [key, value] of Object.entries(items)) {
+      const record = readRecord(area, key, value, items);
+      if (!record) {
+        continue;
+      }
+      const existing = records.get(key);
+      // Sync wins ties, as it did before entries were tracked per area
+      if (!existing || record.entry.timestamp >= existing.entry.timestamp) {
+        records.set(key, record);
+      }
+    }
+  }
+
+  return records;
+}
+
+export async function readEntry(key: string): Promise<EntryRecord | null> {
+  let found: EntryRecord | null = null;
+
+  for (const area of ['local', 'sync'] as StorageAreaName[]) {
+    const items = await chrome.storage[area].get(key);
+    if (isChunkHeader(items[key])) {
+      const chunkKeys = Array.from({ length: items[key].chunkCount }, (_, index) => getChunkKey(key, index));
+      Object.assign(items, await chrome.storage[area].get(chunkKeys));
+    }
+
+    const record = readRecord(area, key, items[key], items);
+    if (record && (!found || record.entry.timestamp >= found.entry.timestamp)) {
+      found = record;
+    }
+  }
+
+  return found;
+}
+
+function readRecord(area: StorageAreaName, key: string, value: unknown, items: { [key: string]: any }): EntryRecord | null {
+  if (isStoredFormData(value)) {
+    return { entry: value, area, chunkCount: 0 };
+  }
+  if (!isChunkHeader(value)) {
+    return null;
+  }
+
+  let serialized = '';
+  for (let index = 0; index < value.chunkCount; index++) {
+    const chunk = items[getChunkKey(key, index)];
+    if (typeof chunk !== 'string') {
+      // A write from another device may still be syncing in
+      console.warn(`Chunk ${index} of ${key} is missing in ${area} storage`);
+      return null;
+    }
+    serialized += chunk;
+  }
+
+  try {
+    const entry = JSON.parse(serialized);
+    return isStoredFormData(entry) ? { entry, area, chunkCount: value.chunkCount } : null;
+  } catch (error) {
+    console.error(`Failed to reassemble ${key} from ${area} storage:`, error);
+    return null;
+  }
+}
+
+// Writes an entry to one area, splitting it across several items when it does not fit one
+// sync item, and removes any copy or leftover chunks elsewhere. Throws when the area refuses
+// the write, e.g. because its quota is used up.
+export async function writeEntry(area: StorageAreaName, key: string, entry: StoredFormData): Promise<EntryRecord> {
+  const previous = await getStoredKeys(key);
+  const items = area === 'sync' ? splitEntry(key, entry) : { [key]: entry };
+  const chunkCount = items[key] === entry ? 0 : Object.keys(items).length - 1;
+
+  await chrome.storage[area].set(items);
+
+  // Leftovers: the other area's copy, and chunks of a previous, longer version
+  for (const storedArea of ['local', 'sync'] as StorageAreaName[]) {
+    const stale = previous[storedArea].filter(storedKey => storedArea !== area || !(storedKey in items));
+    if (stale.length > 0) {
+      await chrome.storage[storedArea].remove(stale);
+    }
+  }
+
+  return { entry, area, chunkCount };
+}
+
+export async function removeEntries(keys: string[]) {
+  if (keys.length === 0) {
+    return;
+  }
+
+  const stored = await getStoredKeys(...keys);
+  for (const area of ['local', 'sync'] as StorageAreaName[]) {
+    if (stored[area].length > 0) {
+      await chrome.storage[area].remove(stored[area]);
+    }
+  }
+}
+
+// Storage keys, including chunk items, that currently hold the given entries in each area
+async function getStoredKeys(...keys: string[]): Promise<{ [area in StorageAreaName]: string[] }> {
+  const stored: { [area in StorageAreaName]: string[] } = { local: [], sync: [] };
+
+  for (const area of ['local', 'sync'] as StorageAreaName[]) {
+    const items = await chrome.storage[area].get(keys);
+    for (const [key, value] of Object.entries(items)) {
+      stored[area].push(key);
+      if (isChunkHeader(value)) {
+        for (let index = 0; index < value.chunkCount; index++) {
+          stored[area].push(getChunkKey(key, index));
+        }
+      }
+    }
+  }
+
+  return stored;
+}
+
+// Items to store for an entry in sync: the entry itself when it fits one item, else a chunk
+// header and the chunks
+function splitEntry(key: string, entry: StoredFormData): { [key: string]: unknown } {
+  const maxItemBytes = chrome.storage.sync.QUOTA_BYTES_PER_ITEM || DEFAULT_SYNC_QUOTA_BYTES_PER_ITEM;
+  if (getItemBytes(key, entry) <= maxItemBytes) {
+    return { [key]: entry };
+  }
+
+  // Chunk keys are longer than the entry key; leave room for the longest index
+  const chunkBudget = maxItemBytes - new TextEncoder().encode(getChunkKey(key, 9999)).length;
+  const chunks = splitString(JSON.stringify(entry), chunkBudget);
+
+  const items: { [key: string]: unknown } = {
+    [key]: { chunkCount: chunks.length } as ChunkHeader
+  };
+  chunks.forEach((chunk, index) => items[getChunkKey(key, index)] = chunk);
+  return items;
+}
+
+// Splits a string into pieces whose JSON encoding stays within the given number of bytes
+function splitString(text: string, maxBytes: number): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(text.length, start + maxBytes);
+    let bytes = getItemBytes('', text.slice(start, end));
+
+    while (bytes > maxBytes) {
+      // Shrink in proportion to the overshoot; multi-byte characters and escapes make it uneven
+      end = start + Math.max(1, Math.min(end - start - 1, Math.floor((end - start) * maxBytes / bytes)));
+      bytes = getItemBytes('', text.slice(start, end));
+    }
+
+    // Never split a surrogate pair, which would leave both halves unencodable
+    const last = text.charCodeAt(end - 1);
+    if (end < text.length && end - start > 1 && last >= 0xd800 && last <= 0xdbff) {
+      end--;
+    }
+
+    pieces.push(text.slice(start, end));
+    start = end;
+  }
+
+  return pieces;
+}
+
+// Bytes and items used in each area, as reported by the browser
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const syncItems = Object.keys(await chrome.storage.sync.get()).length;
+
+  return {
+    sync: {
+      bytesInUse: await chrome.storage.sync.getBytesInUse(),
+      quotaBytes: chrome.storage.sync.QUOTA_BYTES || DEFAULT_SYNC_QUOTA_BYTES,
+      items: syncItems,
+      maxItems: chrome.storage.sync.MAX_ITEMS || DEFAULT_SYNC_MAX_ITEMS
+    },
+    local: {
+      bytesInUse: await chrome.storage.local.getBytesInUse(),
+      quotaBytes: chrome.storage.local.QUOTA_BYTES || DEFAULT_LOCAL_QUOTA_BYTES
+    }
+  };
+}
@@ -1,5 +1,8 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
+import { panelStyles } from './ui-styles';
+
+export type SaveState = 'idle' | 'saving' | 'saved' | 'error';
 
 @customElement('form-memory-suggest')
 export class FormMemorySuggest extends LitElement {
@@ -9,157 +12,139 @@ export class FormMemorySuggest extends LitElement {
   @property({ type: Number })
   formIndex = 0;
 
-  @state()
-  private isClosing = false;
+  // Human-readable name of the form the prompt is about
+  @property({ type: String })
+  formLabel = '';
 
-  static styles = css`
-    :host {
-      position: fixed;
-      top: 20px;
-      right: 20px;
-      z-index: 10000;
-      font-family: system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-    }
+  @property({ type: String })
+  saveState: SaveState = 'idle';
 
-    .suggest-container {
-      background: white;
-      border: 1px solid #e1e5e9;
-      border-radius: 8px;
-      padding: 16px;
-      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
-      max-width: 300px;
-      animation: slideIn 0.3s ease-out;
-    }
-
-    .suggest-container.closing {
-      animation: slideOut 0.2s ease-in forwards;
-    }
+  @state()
+  private isClosing = false;
 
-    @keyframes slideIn {
-      from {
-        transform: translateX(100%);
-        opacity: 0;
-      }
-      to {
-        transform: translateX(0);
-        opacity: 1;
-      }
-    }
+  @state()
+  private snapshotName = '';
 
-    @keyframes slideOut {
-      from {
-        transform: translateX(0);
-        opacity: 1;
-      }
-      to {
-        transform: translateX(100%);
-        opacity: 0;
-      }
-    }
+  private hideTimer: number | null = null;
+  private stateTimer: number | null = null;
 
-    .message {
+  static styles = [panelStyles, css`
+    .snapshot-name {
+      display: block;
+      box-sizing: border-box;
+      width: 100%;
       margin-bottom: 12px;
-      font-weight: 500;
-      font-size: 14px;
-      color: #333;
-      line-height: 1.4;
-    }
-
-    .buttons {
-      display: flex;
-      gap: 8px;
-    }
-
-    .btn {
-      border: none;
-      padding: 8px 16px;
+      padding: 6px 8px;
+      border: 1px solid #ced4da;
       border-radius: 4px;
-      cursor: pointer;
       font-size: 12px;
-      font-weight: 500;
-      transition: all 0.2s ease;
-      flex: 1;
-    }
-
-    .btn:hover {
-      transform: translateY(-1px);
-      box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
-    }
-
-    .btn:active {
-      transform: translateY(0);
-    }
-
-    .btn-primary {
-      background: #007bff;
-      color: white;
-    }
-
-    .btn-primary:hover {
-      background: #0056b3;
-    }
-
-    .btn-secondary {
-      background: #6c757d;
-      color: white;
+      color: #333;
+      background: white;
     }
 
-    .btn-secondary:hover {
-      background: #545b62;
+    .snapshot-name:focus-visible {
+      outline: 2px solid #80bdff;
+      outline-offset: 2px;
     }
 
-    .close-btn {
-      position: absolute;
-      top: 8px;
-      right: 8px;
-      background: none;
-      border: none;
-      font-size: 18px;
-      cursor: pointer;
-      color: #999;
-      padding: 0;
-      width: 20px;
-      height: 20px;
-      display: flex;
-      align-items: center;
-      justify-content: center;
+    .btn-primary.saved {
+      background: #28a745;
     }
 
-    .close-btn:hover {
-      color: #666;
+    .btn-primary.error {
+      background: #dc3545;
     }
-  `;
+  `];
 
   render() {
     if (!this.visible) {
       return html``;
     }
 
+    const busy = this.saveState === 'saving' || this.saveState === 'saved';
+
     return html`
-      <div class="suggest-container ${this.isClosing ? 'closing' : ''}">
-        <button class="close-btn" @click="${this.handleDismiss}">×</button>
-        <div class="message">
+      <div
+        class="panel ${this.isClosing ? 'closing' : ''}"
+        role="dialog"
+        aria-labelledby="form-memory-suggest-message"
+        @keydown="${this.handleKeydown}"
+        @focusin="${this.pauseAutoHide}"
+        @mouseenter="${this.pauseAutoHide}"
+      >
+        <button class="close-btn" aria-label="閉じる" @click="${this.handleDismiss}">×</button>
+        <div class="message" id="form-memory-suggest-message">
           このフォームを保存しますか？
         </div>
+        ${this.formLabel ? html`<div class="form-label" title="${this.formLabel}">${this.formLabel}</div>` : ''}
+        <input
+          class="snapshot-name"
+          type="text"
+          aria-label="スナップショット名 (任意)"
+          placeholder="スナップショット名 (任意)"
+          .value="${this.snapshotName}"
+          ?disabled="${busy}"
+          @input="${this.handleNameInput}"
+        >
         <div class="buttons">
-          <button class="btn btn-primary" @click="${this.handleSave}">
-            保存する
+          <button
+            class="btn btn-primary ${this.saveState}"
+            ?disabled="${busy}"
+            @click="${this.handleSave}"
+          >
+            ${this.getSaveLabel()}
           </button>
           <button class="btn btn-secondary" @click="${this.handleDismiss}">
             今回は保存しない
           </button>
         </div>
+        <div class="visually-hidden" role="status" aria-live="polite">
+          ${this.saveState === 'idle' ? '' : this.getSaveLabel()}
+        </div>
       </div>
     `;
   }
 
+  private getSaveLabel(): string {
+    switch (this.saveState) {
+      case 'saving':
+        return '保存中...';
+      case 'saved':
+        return '保存完了';
+      case 'error':
+        return '保存エラー';
+      default:
+        return '保存する';
+    }
+  }
+
+  private handleNameInput(e: Event) {
+    this.snapshotName = (e.target as HTMLInputElement).value;
+  }
+
+  private handleKeydown(e: KeyboardEvent) {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.handleDismiss();
+    } else if (e.key === 'Enter' && (e.target as HTMLElement).classList.contains('snapshot-name')) {
+      e.preventDefault();
+      this.handleSave();
+    }
+  }
+
   private handleSave() {
+    if (this.saveState === 'saving' || this.saveState === 'saved') {
+      return;
+    }
+
     this.dispatchEvent(new CustomEvent('save-form', {
-      detail: { formIndex: this.formIndex },
+      detail: {
+        formIndex: this.formIndex,
+        snapshotName: this.snapshotName.trim() || undefined
+      },
       bubbles: true,
       composed: true
     }));
-    this.close();
   }
 
   private handleDismiss() {
@@ -170,31 +155,73 @@ export class FormMemorySuggest extends LitElement {
     this.close();
   }
 
-  private close() {
+  // Keeps the prompt open while the user works with it
+  private pauseAutoHide() {
+    if (this.hideTimer) {
+      clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+    }
+  }
+
+  private scheduleAutoHide(delay: number) {
+    this.pauseAutoHide();
+    this.hideTimer = window.setTimeout(() => {
+      this.hideTimer = null;
+      if (this.visible && !this.isClosing) {
+        this.close();
+      }
+    }, delay);
+  }
+
+  // Called by the content script as the save it requested progresses
+  setSaveState(saveState: SaveState) {
+    this.saveState = saveState;
+
+    if (this.stateTimer) {
+      clearTimeout(this.stateTimer);
+      this.stateTimer = null;
+    }
+
+    if (saveState === 'saved') {
+      // Show the success state briefly before closing
+      this.scheduleAutoHide(1000);
+    } else if (saveState === 'error') {
+      // Let the user retry after the error was shown
+      this.stateTimer = window.setTimeout(() => {
+        this.stateTimer = null;
+        this.saveState = 'idle';
+      }, 2000);
+    }
+  }
+
+  close() {
+    if (this.isClosing) {
+      return;
+    }
+
+    this.pauseAutoHide();
     this.isClosing = true;
     setTimeout(() => {
       this.visible = false;
       this.isClosing = false;
       this.remove();
+      this.dispatchEvent(new CustomEvent('suggest-closed'));
     }, 200);
   }
 
-  show(formIndex: number = 0) {
+  show(formIndex: number = 0, formLabel: string = '', autoHideDelay: number = 10000) {
     this.formIndex = formIndex;
+    this.formLabel = formLabel;
     this.visible = true;
     this.isClosing = false;
 
-    // Auto-hide after 10 seconds
-    setTimeout(() => {
-      if (this.visible && !this.isClosing) {
-        this.close();
-      }
-    }, 10000);
+    // Auto-hide after the configured delay (10 seconds by default)
+    this.scheduleAutoHide(autoHideDelay);
   }
 }
 
 // Factory function to create and show suggest UI
-export function showFormMemorySuggest(formIndex: number = 0): FormMemorySuggest {
+export function showFormMemorySuggest(formIndex: number = 0, formLabel: string = '', autoHideDelay: number = 10000): FormMemorySuggest {
   // Remove any existing suggest UI
   const existing = document.querySelector('form-memory-suggest');
   if (existing) {
@@ -203,10 +230,10 @@ export function showFormMemorySuggest(formIndex: number = 0): FormMemorySuggest
 
   const suggestUI = new FormMemorySuggest();
   document.body.appendChild(suggestUI);
-  
+
   // Show after a brief delay to ensure it's in the DOM
   requestAnimationFrame(() => {
-    suggestUI.show(formIndex);
+    suggestUI.show(formIndex, formLabel, autoHideDelay);
   });
 
   return suggestUI;
@@ -216,4 +243,4 @@ declare global {
   interface HTMLElementTagNameMap {
     'form-memory-suggest': FormMemorySuggest;
   }
-}
\ No newline at end of file
+}
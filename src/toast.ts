@@ -0,0 +1,76 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { panelStyles } from './ui-styles';
+
+@customElement('form-memory-toast')
+export class FormMemoryToast extends LitElement {
+  @property({ type: String })
+  message = '';
+
+  @state()
+  private isClosing = false;
+
+  private hideTimer: number | null = null;
+
+  static styles = [panelStyles, css`
+    :host {
+      top: auto;
+      bottom: 20px;
+    }
+
+    .panel {
+      padding: 12px 16px;
+    }
+
+    .message {
+      margin: 0;
+      padding: 0;
+    }
+  `];
+
+  render() {
+    return html`
+      <div class="panel ${this.isClosing ? 'closing' : ''}" role="status" aria-live="polite">
+        <div class="message">${this.message}</div>
+      </div>
+    `;
+  }
+
+  close() {
+    if (this.isClosing) {
+      return;
+    }
+
+    if (this.hideTimer) {
+      clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+    }
+    this.isClosing = true;
+    setTimeout(() => this.remove(), 200);
+  }
+
+  show() {
+    this.hideTimer = window.setTimeout(() => {
+      this.hideTimer = null;
+      this.close();
+    }, 3000);
+  }
+}
+
+// Confirms the outcome of an action that has no panel of its own, such as a keyboard shortcut
+export function showFormMemoryToast(message: string): FormMemoryToast {
+  document.querySelector('form-memory-toast')?.remove();
+
+  const toast = new FormMemoryToast();
+  toast.message = message;
+  document.body.appendChild(toast);
+  toast.show();
+
+  return toast;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'form-memory-toast': FormMemoryToast;
+  }
+}
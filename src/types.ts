@@ -0,0 +1,240 @@
+// Shared data shapes used by the background service, content script and options page.
+
+// Content of a contenteditable region. `html` is sanitized; `text` is kept for plain-text editors and display.
+export interface RichTextValue {
+  kind: 'richtext';
+  html: string;
+  text: string;
+}
+
+// Value of an input whose format the browser validates (date, time, range, color, ...)
+export interface TypedInputValue {
+  kind: 'typed';
+  inputType: string;
+  value: string;
+}
+
+// string[] holds the selected options of a <select multiple> or the checked values of a checkbox group.
+// Entries saved before these kinds existed only hold strings and booleans, which are still accepted.
+export type FormFieldValue = string | boolean | string[] | RichTextValue | TypedInputValue;
+
+export interface FormData {
+  [fieldName: string]: FormFieldValue;
+}
+
+export interface StoredFormData {
+  url: string;
+  data: FormData;
+  timestamp: number;
+  // Key of the form this snapshot belongs to (legacy entries omit it and use their storage key)
+  formKey?: string;
+  // User-given snapshot name; unnamed snapshots are the form's default entry
+  snapshotName?: string;
+  fingerprint?: FormFingerprint;
+  // Locators of the saved fields by field key
+  locators?: { [fieldName: string]: FieldLocator };
+  // Pinned entries are never removed to free storage
+  pinned?: boolean;
+  // When the entry was last restored into a page
+  lastUsed?: number;
+  // `data` encrypted with the user's passphrase; `data` itself is then stored empty
+  encryptedData?: EncryptedPayload;
+}
+
+// AES-GCM ciphertext and its initialization vector, both base64-encoded
+export interface EncryptedPayload {
+  iv: string;
+  ciphertext: string;
+}
+
+// Identity of a form, used to find it again after the page's forms are reordered or inserted
+export interface FormFingerprint {
+  id: string;
+  name: string;
+  action: string;
+  // Sorted keys of the form's fields
+  fields: string[];
+  // Structural CSS path of the form element from <body> (or from the top of its shadow tree)
+  domPath: string;
+  // Frames and shadow hosts between the page and the form; empty for forms in the page itself
+  scopePath?: string;
+}
+
+// Everything known about a field when it was saved, used to find it again when it has no name
+export interface FieldLocator {
+  name?: string;
+  id?: string;
+  label?: string;
+  ariaLabel?: string;
+  placeholder?: string;
+  // Structural CSS path of the field from its form
+  path: string;
+}
+
+// How saved data is put back into a page: immediately, after the user confirms, or not at all
+export type RestorePolicy = 'auto' | 'ask' | 'never';
+
+export interface RestorePolicyConfig {
+  default: RestorePolicy;
+  // Overrides by origin (e.g. https://example.com)
+  sites: { [origin: string]: RestorePolicy };
+}
+
+// What the extension may do on a page; every capability is on unless a site rule turns it off
+export interface SiteAccess {
+  save: boolean;
+  restore: boolean;
+  // The save prompt shown after typing
+  prompt: boolean;
+}
+
+// A user rule for pages matching a match pattern (e.g. `*://*.bank.example/*`) or a regular
+// expression tested against the full URL. Rules are checked in order; the first match applies.
+export interface SiteRule extends SiteAccess {
+  pattern: string;
+  patternType: 'match' | 'regex';
+}
+
+// A value typed into a field, with when it was last entered
+export interface FieldHistoryValue {
+  value: string;
+  usedAt: number;
+}
+
+// Recent distinct values of the fields of one site (origin), by field key, newest first.
+// While encryption is on the values are kept in `encryptedData` and `fields` is empty.
+export interface FieldHistory {
+  fields: { [fieldKey: string]: FieldHistoryValue[] };
+  encryptedData?: EncryptedPayload;
+}
+
+// What a field asks for, independent of the site: autocomplete tokens where the HTML spec has one
+export type SemanticFieldType =
+  | 'name' | 'given-name' | 'family-name' | 'email' | 'tel' | 'organization' | 'organization-title'
+  | 'postal-code' | 'country' | 'address-level1' | 'address-level2' | 'address-line1' | 'address-line2'
+  | 'username' | 'url' | 'bday';
+
+// Reusable values (e.g. "Work address") that fill matching fields on any site. While encryption
+// is on the values are kept in `encryptedData` and `values` is empty.
+export interface Profile {
+  id: string;
+  name: string;
+  values: { [type in SemanticFieldType]?: string };
+  updatedAt: number;
+  encryptedData?: EncryptedPayload;
+}
+
+// Actions run from a keyboard shortcut or the context menu. The names are the manifest's
+// command names, which the context menu items reuse as their ids.
+export type FormCommand = 'save-form' | 'restore-form' | 'fill-field' | 'never-save-site';
+
+// How the URLs of matching pages are turned into the key their saved data is stored under.
+// Without a rule the key is the origin and path, so query strings and fragments are ignored.
+export interface UrlRule {
+  // Match pattern or regular expression selecting the pages, as in site rules
+  pattern: string;
+  patternType: 'match' | 'regex';
+  // Path templates such as `/tickets/:id/edit`; a path matching one is keyed by the template
+  pathTemplates: string[];
+  // Query parameters kept in the key: none, only those listed, or all but those listed
+  queryMode: 'ignore' | 'include' | 'exclude';
+  queryParams: string[];
+  // Keeps the route in the fragment (e.g. `#/settings/profile`) for hash-routed apps; path
+  // templates apply to it too
+  hashRoutes: boolean;
+}
+
+// Field property a sensitive-field rule tests its pattern against
+export type SensitiveRuleTarget = 'name' | 'type' | 'autocomplete' | 'value';
+
+// A user rule for sensitive fields. 'exclude' rules drop matching fields; 'include' rules keep
+// them even when an exclude rule, a built-in pattern or a detector would drop them.
+export interface SensitiveFieldRule {
+  action: 'include' | 'exclude';
+  target: SensitiveRuleTarget;
+  // Regular expression, matched case-insensitively
+  pattern: string;
+}
+
+// Built-in detectors that recognise sensitive values regardless of the field's name
+export type SensitiveDetector = 'cardNumber' | 'iban' | 'nationalId' | 'phone' | 'email';
+
+export interface SensitiveFieldConfig {
+  // Whether the built-in name patterns (CSRF tokens, passwords, one-time codes, ...) apply
+  builtInPatterns: boolean;
+  detectors: { [detector in SensitiveDetector]: boolean };
+  rules: SensitiveFieldRule[];
+}
+
+// Where saved forms are written first; the other area is the fallback
+export type StorageAreaName = 'sync' | 'local';
+
+// Bytes in use per storage area as reported by the browser, with the area's limits
+export interface StorageUsage {
+  sync: { bytesInUse: number; quotaBytes: number; items: number; maxItems: number };
+  local: { bytesInUse: number; quotaBytes: number };
+}
+
+// Which entries are removed to free storage: the least recently used share once sync storage
+// passes its threshold, those unused for a number of days, or all beyond a number of entries
+export type EvictionPolicy = 'lru' | 'maxAge' | 'maxCount';
+
+// An entry removed to free storage, which can be put back for a short while
+export interface EvictedEntry {
+  key: string;
+  url: string;
+  snapshotName?: string;
+  evictedAt: number;
+}
+
+// User settings, stored as one object in chrome.storage.local
+export interface Settings {
+  // Schema version of the stored object, used to migrate older settings
+  version: number;
+  draftMode: boolean;
+  restorePolicy: RestorePolicyConfig;
+  // Pause after the last input before the save prompt appears
+  suggestDelayMs: number;
+  // How long the save prompt stays open without interaction
+  suggestAutoHideMs: number;
+  // Sync storage usage that triggers a cleanup, and the share of oldest entries it removes
+  quotaThresholdPercent: number;
+  evictionPercent: number;
+  evictionPolicy: EvictionPolicy;
+  evictionMaxAgeDays: number;
+  evictionMaxEntries: number;
+  storageArea: StorageAreaName;
+  siteRules: SiteRule[];
+  urlRules: UrlRule[];
+  sensitiveFields: SensitiveFieldConfig;
+}
+
+// How an imported entry is handled when an entry already exists under its key: the more
+// recently saved one wins, the existing one stays, or the import is added as another snapshot
+export type ImportStrategy = 'newer' | 'existing' | 'both';
+
+// An entry of an imported backup, checked against what is stored
+export interface ImportPreviewEntry {
+  // Storage key the entry would be written to
+  key: string;
+  status: 'new' | 'conflict' | 'invalid';
+  url?: string;
+  snapshotName?: string;
+  timestamp?: number;
+  fieldCount?: number;
+  // Saved time of the stored entry the import would overwrite
+  existingTimestamp?: number;
+  // Why an invalid entry cannot be imported
+  error?: 'malformed' | 'encrypted' | 'invalid-key';
+}
+
+// File written by the JSON export: the saved entries, keyed by storage key, in a versioned envelope
+export interface ExportEnvelope {
+  format: 'form-memory';
+  // Version of this envelope and the entry shape; imports refuse files from a newer version
+  schemaVersion: number;
+  exportedAt: string;
+  extensionVersion: string;
+  count: number;
+  entries: { [key: string]: StoredFormData };
+}
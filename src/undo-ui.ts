@@ -0,0 +1,221 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { panelStyles } from './ui-styles';
+
+// A field a restore changed, with the value it had before
+export interface UndoField {
+  field: string;
+  previous: string;
+}
+
+@customElement('form-memory-undo')
+export class FormMemoryUndo extends LitElement {
+  @property({ type: String })
+  formLabel = '';
+
+  @property({ attribute: false })
+  fields: UndoField[] = [];
+
+  @state()
+  private isClosing = false;
+
+  @state()
+  private expanded = false;
+
+  private hideTimer: number | null = null;
+
+  static styles = [panelStyles, css`
+    /* Bottom corner, so the save prompt that follows a restore does not cover it */
+    :host {
+      top: auto;
+      bottom: 20px;
+    }
+
+    .panel {
+      max-width: 340px;
+    }
+
+    .toggle {
+      display: block;
+      margin-bottom: 12px;
+      padding: 0;
+      border: none;
+      background: none;
+      font-size: 12px;
+      color: #007bff;
+      cursor: pointer;
+    }
+
+    .toggle:focus-visible,
+    .field-undo:focus-visible {
+      outline: 2px solid #80bdff;
+      outline-offset: 2px;
+    }
+
+    .fields {
+      max-height: 200px;
+      overflow-y: auto;
+      margin-bottom: 12px;
+      border-top: 1px solid #e1e5e9;
+    }
+
+    .field {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 0;
+      border-bottom: 1px solid #e1e5e9;
+      font-size: 12px;
+    }
+
+    .field-info {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .field-name {
+      font-weight: 500;
+      color: #333;
+      overflow-wrap: anywhere;
+    }
+
+    .field-previous {
+      color: #6c757d;
+      overflow-wrap: anywhere;
+    }
+
+    .field-undo {
+      flex: none;
+      padding: 4px 8px;
+      border: 1px solid #ced4da;
+      border-radius: 4px;
+      background: white;
+      font-size: 11px;
+      color: #333;
+      cursor: pointer;
+    }
+
+    .field-undo:hover {
+      background: #f8f9fa;
+    }
+  `];
+
+  render() {
+    return html`
+      <div
+        class="panel ${this.isClosing ? 'closing' : ''}"
+        role="dialog"
+        aria-labelledby="form-memory-undo-message"
+        @keydown="${this.handleKeydown}"
+        @focusin="${this.pauseAutoHide}"
+        @mouseenter="${this.pauseAutoHide}"
+      >
+        <button class="close-btn" aria-label="閉じる" @click="${this.close}">×</button>
+        <div class="message" id="form-memory-undo-message">
+          保存済みデータで ${this.fields.length} 項目を復元しました
+        </div>
+        ${this.formLabel ? html`<div class="form-label" title="${this.formLabel}">${this.formLabel}</div>` : ''}
+        <button class="toggle" aria-expanded="${this.expanded}" @click="${this.toggleFields}">
+          ${this.expanded ? '項目を隠す' : '項目ごとに元に戻す'}
+        </button>
+        ${this.expanded ? html`
+          <div class="fields">
+            ${this.fields.map(field => html`
+              <div class="field">
+                <div class="field-info">
+                  <div class="field-name">${field.field}</div>
+                  <div class="field-previous">元の値: ${field.previous || '(空)'}</div>
+                </div>
+                <button class="field-undo" @click="${() => this.handleUndoField(field.field)}">
+                  元に戻す
+                </button>
+              </div>
+            `)}
+          </div>
+        ` : ''}
+        <div class="buttons">
+          <button class="btn btn-primary" @click="${this.handleUndoAll}">
+            すべて元に戻す
+          </button>
+          <button class="btn btn-secondary" @click="${this.close}">
+            このままにする
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  private toggleFields() {
+    this.expanded = !this.expanded;
+  }
+
+  private handleKeydown(e: KeyboardEvent) {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close();
+    }
+  }
+
+  private handleUndoField(field: string) {
+    this.dispatchEvent(new CustomEvent('undo-field', { detail: { field } }));
+  }
+
+  private handleUndoAll() {
+    this.dispatchEvent(new CustomEvent('undo-all'));
+  }
+
+  private pauseAutoHide() {
+    if (this.hideTimer) {
+      clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+    }
+  }
+
+  // Called by the content script once a field was reverted
+  removeField(field: string) {
+    this.fields = this.fields.filter(item => item.field !== field);
+    if (this.fields.length === 0) {
+      this.close();
+    }
+  }
+
+  close() {
+    if (this.isClosing) {
+      return;
+    }
+
+    this.pauseAutoHide();
+    this.isClosing = true;
+    setTimeout(() => {
+      this.remove();
+      this.dispatchEvent(new CustomEvent('undo-closed'));
+    }, 200);
+  }
+
+  show() {
+    // Undo stays available for 15 seconds unless the user interacts with the panel
+    this.hideTimer = window.setTimeout(() => {
+      this.hideTimer = null;
+      this.close();
+    }, 15000);
+  }
+}
+
+// Shows the undo control for the most recent restore, replacing any earlier one
+export function showFormMemoryUndo(formLabel: string, fields: UndoField[]): FormMemoryUndo {
+  document.querySelector('form-memory-undo')?.remove();
+
+  const undoUI = new FormMemoryUndo();
+  undoUI.formLabel = formLabel;
+  undoUI.fields = fields;
+  document.body.appendChild(undoUI);
+  undoUI.show();
+
+  return undoUI;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'form-memory-undo': FormMemoryUndo;
+  }
+}
@@ -0,0 +1,82 @@
+import type { UrlRule } from './types';
+
+// Key of a page's saved data: its origin and path, turned into a template when a path template
+// of the rule matches, plus the query parameters and fragment route the rule keeps
+export function normalizePageKey(url: string, rule: UrlRule | null): string {
+  const parsed = new URL(url);
+  if (!rule) {
+    return `${parsed.origin}${parsed.pathname}`;
+  }
+
+  const params = new URLSearchParams(parsed.search);
+  let route = '';
+  if (rule.hashRoutes) {
+    // `#/tickets/1?tab=2` and `#!/tickets/1` both hold a route with an optional query of its own
+    const fragment = parsed.hash.replace(/^#!?/, '');
+    const queryStart = fragment.indexOf('?');
+    const routePath = queryStart >= 0 ? fragment.slice(0, queryStart) : fragment;
+    if (queryStart >= 0) {
+      new URLSearchParams(fragment.slice(queryStart + 1)).forEach((value, name) => params.append(name, value));
+    }
+    route = routePath ? `#${applyPathTemplates(routePath, rule.pathTemplates)}` : '';
+  }
+
+  const path = applyPathTemplates(parsed.pathname, rule.pathTemplates);
+  const query = filterQuery(params, rule);
+  return `${parsed.origin}${path}${query ? `?${query}` : ''}${route}`;
+}
+
+// Checks that a template is a path whose segments are literals, `:name` parameters or a final `*`
+export function isValidPathTemplate(template: string): boolean {
+  if (!template.startsWith('/')) {
+    return false;
+  }
+
+  const segments = template.split('/').slice(1);
+  return segments.every((segment, index) =>
+    segment === '*' ? index === segments.length - 1 : /^(:[\w-]+|[^:*]*)$/.test(segment)
+  );
+}
+
+// The first template a path matches, or the path itself
+function applyPathTemplates(path: string, templates: string[]): string {
+  return templates.find(template => matchesPathTemplate(template, path)) ?? path;
+}
+
+function matchesPathTemplate(template: string, path: string): boolean {
+  const templateSegments = template.split('/');
+  const pathSegments = path.split('/');
+
+  for (let index = 0; index < templateSegments.length; index++) {
+    const segment = templateSegments[index];
+    if (segment === '*') {
+      // Covers the rest of the path, but at least one segment of it
+      return pathSegments.length > index && pathSegments.slice(index).join('/') !== '';
+    }
+    if (index >= pathSegments.length) {
+      return false;
+    }
+    if (segment.startsWith(':') ? pathSegments[index] === '' : segment !== pathSegments[index]) {
+      return false;
+    }
+  }
+
+  return templateSegments.length === pathSegments.length;
+}
+
+// The kept query parameters, sorted so their order in the URL does not change the key
+function filterQuery(params: URLSearchParams, rule: UrlRule): string {
+  if (rule.queryMode === 'ignore') {
+    return '';
+  }
+
+  const kept = new URLSearchParams();
+  params.forEach((value, name) => {
+    const listed = rule.queryParams.includes(name);
+    if (rule.queryMode === 'include' ? listed : !listed) {
+      kept.append(name, value);
+    }
+  });
+  kept.sort();
+  return kept.toString();
+}
@@ -0,0 +1,81 @@
+import { EDITABLE_SELECTOR, FIELD_SELECTOR, FormField, isEditableField } from './field-locator';
+import { SearchRoot, isShadowRoot } from './dom-traversal';
+
+// Elements that usually wrap one logical form in apps that do not use <form>
+const CONTAINER_SELECTOR = '[role="form"], [role="dialog"], dialog, fieldset, section, article, aside, main';
+
+// Input types that cannot be typed into and so never make a group worth saving on their own
+const NON_EDITABLE_TYPES = ['hidden', 'submit', 'button', 'reset', 'image'];
+
+// Returns the container a field outside any <form> is grouped under, or null when the field
+// belongs to a real form, to a search box, or to the extension's own UI.
+export function getVirtualFormRoot(field: Element): HTMLElement | null {
+  if (field.closest('form, [role="search"], [id^="form-memory-"]')) {
+    return null;
+  }
+
+  return (field.parentElement?.closest(CONTAINER_SELECTOR) as HTMLElement | null) ?? getFallbackRoot(field);
+}
+
+// <body> of the field's document, or for fields inside a shadow tree the tree's top-level element
+function getFallbackRoot(field: Element): HTMLElement {
+  if (!isShadowRoot(field.getRootNode())) {
+    return field.ownerDocument.body;
+  }
+
+  let top = field;
+  while (top.parentElement) {
+    top = top.parentElement;
+  }
+  return top as HTMLElement;
+}
+
+// Groups inputs that live outside any <form> by their container, so each group can be saved
+// and restored like a form. Containers are semantic elements (or <body>) rather than the
+// closest common ancestor, so a group keeps the same root element as fields come and go.
+export function detectVirtualForms(searchRoot: SearchRoot = document): HTMLElement[] {
+  const roots: HTMLElement[] = [];
+
+  searchRoot.querySelectorAll(`${FIELD_SELECTOR}, ${EDITABLE_SELECTOR}`).forEach(field => {
+    if (!isEditableField(field) && NON_EDITABLE_TYPES.includes((field as FormField).type)) {
+      return;
+    }
+
+    const root = getVirtualFormRoot(field);
+    if (root && !roots.includes(root)) {
+      roots.push(root);
+    }
+  });
+
+  return roots;
+}
+
+export function isVirtualForm(root: HTMLElement): boolean {
+  // Compared by tag name because forms inside same-origin frames come from another realm
+  return root.tagName !== 'FORM';
+}
+
+// Fields of a form root. For virtual forms only fields grouped under that root count, so
+// <body> does not pick up the fields of real forms or of nested containers.
+export function getFormFields(root: HTMLElement): FormField[] {
+  const fields = Array.from(root.querySelectorAll(FIELD_SELECTOR)) as FormField[];
+  if (!isVirtualForm(root)) {
+    return fields;
+  }
+  return fields.filter(field => getVirtualFormRoot(field) === root);
+}
+
+// Outermost contenteditable regions of a form root; nested editable nodes belong to their editor
+export function getEditableFields(root: HTMLElement): HTMLElement[] {
+  const editables = (Array.from(root.querySelectorAll(EDITABLE_SELECTOR)) as HTMLElement[])
+    .filter(element => !element.parentElement?.closest(EDITABLE_SELECTOR));
+  if (!isVirtualForm(root)) {
+    return editables;
+  }
+  return editables.filter(element => getVirtualFormRoot(element) === root);
+}
+
+// Every field whose value is captured: form controls first, then contenteditable regions
+export function getCapturableFields(root: HTMLElement): HTMLElement[] {
+  return [...getFormFields(root), ...getEditableFields(root)];
+}
@@ -1,5 +1,6 @@
 import { defineConfig } from 'vite';
 import { resolve } from 'path';
+import { readFileSync } from 'fs';
 
 export default defineConfig({
   build: {
@@ -9,7 +10,7 @@ export default defineConfig({
         background: resolve(__dirname, 'src/background.ts'),
         content: resolve(__dirname, 'src/content.ts'),
         options: resolve(__dirname, 'src/options.ts'),
-        'suggest-ui': resolve(__dirname, 'src/suggest-ui.ts'),
+        popup: resolve(__dirname, 'src/popup.ts'),
         styles: resolve(__dirname, 'src/styles.css')
       },
       output: {
@@ -42,7 +43,8 @@ export default defineConfig({
             "description": "Save your keystrokes, focus on your work. Automatically save and restore form data.",
             "permissions": [
               "storage",
-              "activeTab"
+              "activeTab",
+              "contextMenus"
             ],
             "host_permissions": [
               "<all_urls>"
@@ -50,6 +52,27 @@ export default defineConfig({
             "background": {
               "service_worker": "background.js"
             },
+            "action": {
+              "default_title": "Form Memory",
+              "default_popup": "popup.html"
+            },
+            "commands": {
+              "save-form": {
+                "suggested_key": { "default": "Alt+Shift+S" },
+                "description": "このフォームを保存"
+              },
+              "restore-form": {
+                "suggested_key": { "default": "Alt+Shift+R" },
+                "description": "このフォームを復元"
+              },
+              "fill-field": {
+                "suggested_key": { "default": "Alt+Shift+H" },
+                "description": "この項目に履歴から入力"
+              },
+              "never-save-site": {
+                "description": "このサイトでは保存しない"
+              }
+            },
             "content_scripts": [
               {
                 "matches": ["<all_urls>"],
@@ -65,69 +88,14 @@ export default defineConfig({
         this.emitFile({
           type: 'asset',
           fileName: 'options.html',
-          source: `<!DOCTYPE html>
-<html lang="ja">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Form Memory - オプション</title>
-  <link rel="stylesheet" href="styles.css">
-</head>
-<body>
-  <div class="container">
-    <header class="header">
-      <h1>Form Memory</h1>
-      <p class="subtitle">保存済みフォームデータの管理</p>
-    </header>
-
-    <main class="main">
-      <div class="stats-section">
-        <div class="stat-card">
-          <span class="stat-number" id="total-forms">0</span>
-          <span class="stat-label">保存済みフォーム</span>
-        </div>
-        <div class="stat-card">
-          <span class="stat-number" id="storage-used">0</span>
-          <span class="stat-label">使用容量 (%)</span>
-        </div>
-      </div>
-
-      <div class="actions-section">
-        <button id="export-btn" class="btn btn-secondary">
-          データをエクスポート
-        </button>
-        <button id="clear-all-btn" class="btn btn-danger">
-          全データを削除
-        </button>
-      </div>
-
-      <div class="forms-section">
-        <h2>保存済みフォーム一覧</h2>
-        <div class="search-box">
-          <input type="text" id="search-input" placeholder="URL または サイト名で検索...">
-        </div>
-        
-        <div id="forms-list" class="forms-list">
-          <div class="loading">データを読み込み中...</div>
-        </div>
-      </div>
-    </main>
-  </div>
-
-  <div id="confirm-dialog" class="modal-overlay" style="display: none;">
-    <div class="modal">
-      <h3>確認</h3>
-      <p id="confirm-message"></p>
-      <div class="modal-actions">
-        <button id="confirm-yes" class="btn btn-danger">はい</button>
-        <button id="confirm-no" class="btn btn-secondary">キャンセル</button>
-      </div>
-    </div>
-  </div>
+          source: readFileSync(resolve(__dirname, 'src/options.html'), 'utf-8')
+        });
 
-  <script type="module" src="options.js"></script>
-</body>
-</html>`
+        // Copy popup.html
+        this.emitFile({
+          type: 'asset',
+          fileName: 'popup.html',
+          source: readFileSync(resolve(__dirname, 'src/popup.html'), 'utf-8')
         });
       }
     }